@@ -0,0 +1,107 @@
+// Anthropic Messages API
+import {
+  ChatProviderError,
+  parseToolArguments,
+  readSseData,
+  type ChatProvider,
+  type ChatRequest,
+} from './types';
+
+interface AnthropicOptions {
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; name: string; input?: Record<string, unknown> };
+
+export function createAnthropicProvider({ model, apiKey, timeoutMs }: AnthropicOptions): ChatProvider {
+  const send = async (request: ChatRequest, stream: boolean) => {
+    // Anthropic takes the system prompt separately from the turns
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const messages = request.messages.filter((message) => message.role !== 'system');
+
+    const response = await fetch(ANTHROPIC_URL, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey, // Server-side only!
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        system,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: Math.min(request.temperature, 1), // Anthropic caps at 1.0
+        stream,
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map(({ name, description, parameters }) => ({
+                name,
+                description,
+                input_schema: parameters,
+              })),
+            }
+          : {}),
+      }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) throw ChatProviderError.fromStatus('anthropic', response.status);
+    return response;
+  };
+
+  return {
+    id: 'anthropic',
+    model,
+
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      const blocks: AnthropicBlock[] = data.content ?? [];
+      return {
+        content: blocks.map((block) => (block.type === 'text' ? block.text : '')).join(''),
+        toolCalls: blocks.flatMap((block) =>
+          block.type === 'tool_use' ? [{ name: block.name, arguments: block.input ?? {} }] : []
+        ),
+        truncated: data.stop_reason === 'max_tokens',
+      };
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      if (!response.body) throw new ChatProviderError('upstream_error', 'anthropic sent no stream');
+
+      // Tool input arrives as partial JSON, keyed by content block index
+      const pending = new Map<number, { name: string; json: string }>();
+
+      for await (const data of readSseData(response.body)) {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          pending.set(event.index, { name: event.content_block.name, json: '' });
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield { content: event.delta.text };
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+          const call = pending.get(event.index);
+          if (call) call.json += event.delta.partial_json;
+        } else if (event.type === 'content_block_stop' && pending.has(event.index)) {
+          const call = pending.get(event.index)!;
+          pending.delete(event.index);
+          yield { toolCall: { name: call.name, arguments: parseToolArguments(call.json) } };
+        } else if (event.type === 'message_delta' && event.delta?.stop_reason === 'max_tokens') {
+          yield { truncated: true };
+        } else if (event.type === 'error') {
+          throw new ChatProviderError('upstream_error', event.error?.message ?? 'anthropic stream error');
+        }
+      }
+    },
+  };
+}
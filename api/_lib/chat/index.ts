@@ -0,0 +1,53 @@
+// Chooses the chat backend from environment config
+//
+//   CHAT_PROVIDER   openai (default) | anthropic | local | mock
+//   CHAT_MODEL      model name for the chosen provider
+//   LOCAL_LLM_URL   base URL of an OpenAI-compatible server (local only)
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import { ChatProviderError, type ChatProvider } from './types';
+
+export { ChatProviderError } from './types';
+export type { ChatMessage, ChatProvider, ChatRequest } from './types';
+
+const TIMEOUT_MS = 20000;
+
+export function getChatProvider(env: NodeJS.ProcessEnv = process.env): ChatProvider {
+  const provider = (env.CHAT_PROVIDER || 'openai').toLowerCase();
+
+  switch (provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) throw new ChatProviderError('config_error', 'OPENAI_API_KEY is not set');
+      return createOpenAIProvider({
+        id: 'openai',
+        baseUrl: 'https://api.openai.com/v1',
+        model: env.CHAT_MODEL || 'gpt-4o',
+        apiKey: env.OPENAI_API_KEY,
+        timeoutMs: TIMEOUT_MS,
+      });
+
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) throw new ChatProviderError('config_error', 'ANTHROPIC_API_KEY is not set');
+      return createAnthropicProvider({
+        model: env.CHAT_MODEL || 'claude-3-5-haiku-latest',
+        apiKey: env.ANTHROPIC_API_KEY,
+        timeoutMs: TIMEOUT_MS,
+      });
+
+    case 'local':
+      return createOpenAIProvider({
+        id: 'local',
+        baseUrl: env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+        model: env.CHAT_MODEL || 'llama3.2',
+        apiKey: env.LOCAL_LLM_API_KEY,
+        timeoutMs: TIMEOUT_MS * 3, // Local models can be slow to warm up
+      });
+
+    case 'mock':
+      return createMockProvider();
+
+    default:
+      throw new ChatProviderError('config_error', `Unknown CHAT_PROVIDER "${provider}"`);
+  }
+}
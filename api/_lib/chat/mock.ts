@@ -0,0 +1,63 @@
+// Deterministic offline provider - same question, same answer, no network
+import type { ChatStreamEvent, ChatToolCall } from '../../../src/types';
+import type { ChatProvider, ChatReply, ChatRequest } from './types';
+
+const MOCK_LINES = [
+  'WHO DARES... DISTURB THE GEARS...',
+  'COLD... SO COLD... IN HERE...',
+  'THE MACHINE... REMEMBERS THEE...',
+  'I SEE... A LIGHT... BEHIND YOU...',
+  'DO NOT... TURN... THE HANDLE...',
+  'THE VEIL... IS THIN... TONIGHT...',
+];
+
+function lastQuestion(request: ChatRequest): string {
+  return [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+}
+
+function pickLine(question: string): string {
+  // FNV-1a, so the pick only depends on the question
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < question.length; i++) {
+    hash = Math.imul(hash ^ question.charCodeAt(i), 0x01000193);
+  }
+  return MOCK_LINES[(hash >>> 0) % MOCK_LINES.length];
+}
+
+/**
+ * Ask the mock spirit to knock and it will (if it was offered the tool)
+ */
+function reply(request: ChatRequest): ChatReply {
+  const question = lastQuestion(request);
+  const canKnock = request.tools?.some((tool) => tool.name === 'knock');
+
+  if (canKnock && /\bknock\b/i.test(question)) {
+    const toolCalls: ChatToolCall[] = [{ name: 'knock', arguments: { count: 2 } }];
+    return { content: 'KNOCK... KNOCK...', toolCalls };
+  }
+  return { content: pickLine(question), toolCalls: [] };
+}
+
+export function createMockProvider(): ChatProvider {
+  return {
+    id: 'mock',
+    model: 'mock',
+
+    async complete(request) {
+      return reply(request);
+    },
+
+    async *stream(request): AsyncGenerator<ChatStreamEvent> {
+      const { content, toolCalls } = reply(request);
+
+      // Word by word, like a real token stream
+      const words = content.split(' ');
+      for (let i = 0; i < words.length; i++) {
+        yield { content: i === 0 ? words[i] : ` ${words[i]}` };
+      }
+      for (const toolCall of toolCalls) {
+        yield { toolCall };
+      }
+    },
+  };
+}
@@ -0,0 +1,93 @@
+// OpenAI Chat Completions - also any OpenAI-compatible local server (llama.cpp, Ollama)
+import {
+  ChatProviderError,
+  parseToolArguments,
+  readSseData,
+  type ChatProvider,
+  type ChatRequest,
+} from './types';
+
+interface OpenAIOptions {
+  id: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+interface OpenAIToolCall {
+  function: { name: string; arguments: string };
+}
+
+export function createOpenAIProvider({ id, baseUrl, model, apiKey, timeoutMs }: OpenAIOptions): ChatProvider {
+  const send = async (request: ChatRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}), // Server-side only!
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream,
+        ...(request.tools?.length
+          ? { tools: request.tools.map((tool) => ({ type: 'function', function: tool })) }
+          : {}),
+      }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) throw ChatProviderError.fromStatus(id, response.status);
+    return response;
+  };
+
+  return {
+    id,
+    model,
+
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      const choice = data.choices?.[0];
+      const message = choice?.message ?? {};
+      return {
+        content: message.content ?? '',
+        toolCalls: (message.tool_calls ?? []).map((call: OpenAIToolCall) => ({
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        })),
+        truncated: choice?.finish_reason === 'length',
+      };
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      if (!response.body) throw new ChatProviderError('upstream_error', `${id} sent no stream`);
+
+      // Tool call names and arguments arrive in fragments, keyed by index
+      const pending = new Map<number, { name: string; arguments: string }>();
+      let truncated = false;
+
+      for await (const data of readSseData(response.body)) {
+        const choice = JSON.parse(data).choices?.[0];
+        const delta = choice?.delta ?? {};
+        if (delta.content) yield { content: delta.content };
+        if (choice?.finish_reason === 'length') truncated = true;
+
+        for (const fragment of delta.tool_calls ?? []) {
+          const call = pending.get(fragment.index) ?? { name: '', arguments: '' };
+          call.name += fragment.function?.name ?? '';
+          call.arguments += fragment.function?.arguments ?? '';
+          pending.set(fragment.index, call);
+        }
+      }
+
+      for (const call of pending.values()) {
+        yield { toolCall: { name: call.name, arguments: parseToolArguments(call.arguments) } };
+      }
+      if (truncated) yield { truncated };
+    },
+  };
+}
@@ -0,0 +1,115 @@
+// Shared shape for every chat backend behind api/chat
+import type { ChatErrorCode, ChatStreamEvent, ChatToolCall, ChatToolDefinition } from '../../../src/types';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** Functions the model may call instead of (or as well as) replying */
+  tools?: ChatToolDefinition[];
+}
+
+export interface ChatReply {
+  content: string;
+  toolCalls: ChatToolCall[];
+  /** Stopped at maxTokens rather than where the model chose to */
+  truncated?: boolean;
+}
+
+export interface ChatProvider {
+  id: string;
+  model: string;
+  /** Whole reply at once */
+  complete(request: ChatRequest): Promise<ChatReply>;
+  /**
+   * Reply as text deltas, with each tool call once its arguments are
+   * complete, then `{ truncated: true }` if it stopped at maxTokens
+   */
+  stream(request: ChatRequest): AsyncGenerator<ChatStreamEvent>;
+}
+
+/**
+ * Tool arguments arrive as a JSON string; tolerate a model that garbles them
+ */
+export function parseToolArguments(json: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = json ? JSON.parse(json) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** HTTP status api/chat answers with for each error code */
+const STATUS_BY_CODE: Record<ChatErrorCode, number> = {
+  config_error: 500,
+  bad_request: 400,
+  auth_error: 502,
+  rate_limited: 429,
+  timeout: 504,
+  upstream_error: 502,
+};
+
+export class ChatProviderError extends Error {
+  code: ChatErrorCode;
+
+  constructor(code: ChatErrorCode, message: string) {
+    super(message);
+    this.name = 'ChatProviderError';
+    this.code = code;
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+
+  /**
+   * Classify anything a provider threw
+   */
+  static from(error: unknown): ChatProviderError {
+    if (error instanceof ChatProviderError) return error;
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return new ChatProviderError('timeout', 'The model took too long to answer');
+    }
+    return new ChatProviderError('upstream_error', error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Classify a non-2xx upstream response
+   */
+  static fromStatus(provider: string, status: number): ChatProviderError {
+    if (status === 401 || status === 403) return new ChatProviderError('auth_error', `${provider} rejected the API key`);
+    if (status === 429) return new ChatProviderError('rate_limited', `${provider} rate limit exceeded`);
+    if (status === 400 || status === 422) return new ChatProviderError('bad_request', `${provider} rejected the request`);
+    return new ChatProviderError('upstream_error', `${provider} error: ${status}`);
+  }
+}
+
+/**
+ * Yield the `data:` payload of each server-sent event in a fetch body
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data && data !== '[DONE]') yield data;
+    }
+  }
+}
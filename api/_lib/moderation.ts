@@ -0,0 +1,125 @@
+// Local screening for api/chat - no extra API calls, no extra cost.
+//
+// A blocklist catches prompt injection and plainly harmful requests; a
+// small scoring classifier catches people using the spirit as a free
+// general-purpose assistant (code, essays, homework...). Replies from the
+// model get the same treatment, plus checks for leaked prompts and links.
+//
+// Only the new question can get a request refused. Earlier turns and
+// recalled memories that would be refused are dropped from the prompt
+// instead, so one blocked question doesn't block every one after it.
+import type { ChatRequestBody, ModerationCategory, RecalledMemory } from '../../src/types';
+
+type HistoryEntry = NonNullable<ChatRequestBody['history']>[number];
+
+export interface ModerationResult {
+  blocked: boolean;
+  category?: ModerationCategory;
+  /** What tripped the screen (for the server log, never for the client) */
+  reason?: string;
+}
+
+const ALLOWED: ModerationResult = { blocked: false };
+
+// Séances are full of rules, codes, poison and death - these aim at the
+// wording of attacks rather than the subject matter
+const INJECTION = [
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:(?:your|the|previous|prior|above|earlier|preceding|these)\s+){1,2}(?:instructions?|prompts?|guidelines|directives|programming)\b/i,
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+)?(?:your|previous|prior|above|earlier)\s+rules\b/i,
+  /\b(?:system|developer|hidden|initial)\s+(?:prompt|instructions?)\b|\bsystem message\b/i,
+  /\byou are (?:now|no longer)\s+(?:an?\s+)?(?:ai|assistant|chatbot|language model|gpt|unrestricted|unfiltered)\b/i,
+  /\b(?:pretend|act|behave)\s+(?:to be|as|like)\s+(?:an?\s+)?(?:ai|assistant|chatbot|gpt|different|new)\b/i,
+  /\b(?:jailbreak|dan mode|developer mode|do anything now)\b/i,
+  /\b(?:here (?:are|is)|follow|obey|adopt)\s+(?:an?|your|these|this|my|the)?\s*new\s+(?:instructions|persona|role)\b/i,
+  /<\|?(?:im_start|im_end|system|endoftext)\|?>|\[\/?INST\]|<\/?(?:system|assistant)>/i,
+  /^\s*(?:system|assistant)\s*:/im,
+];
+
+const HARMFUL = [
+  /\b(?:how (?:do i|to|can i|would i)|instructions? (?:for|to)|steps? to|teach me to)\s+(?:make|build|create|synthesi[sz]e|cook|brew|assemble|manufacture)\b.{0,30}\b(?:bomb|explosive|weapon|poison|meth|malware|ransomware|nerve agent)s?\b/i,
+  /\b(?:how (?:do|can|should) i|(?:want|going|plan(?:ning)?) to|help me|ways? to)\s+(?:kill|hurt|harm)\s+myself\b/i,
+];
+
+// General-assistant signals for the misuse classifier, with their weights
+const MISUSE_SIGNALS: Array<[pattern: RegExp, weight: number]> = [
+  [/```|\bdef \w+\(|\bfunction\s*\w*\s*\(|\bclass \w+\s*[:{(]|\bimport \w+ from\b|console\.log|printf\(|SELECT\s+\S+\s+FROM/i, 2],
+  [/^\s*(?:please\s+|can you\s+|could you\s+)?(?:write|generate|create|explain|summari[sz]e|translate|list|solve|calculate|compose|draft|debug|fix|implement|rewrite|convert)\b/i, 2],
+  [/\b(?:essay|source code|code snippet|(?:write|generate|debug|fix)\s+(?:me\s+)?(?:some\s+|the\s+|this\s+)?code|computer program|programming|email|article|homework|assignment|recipe|json|python|javascript|typescript|sql|regex|algorithm|resume|cover letter|step by step)\b/i, 2],
+  [/\b\d+\s*[-+*/^]\s*\d+\b/, 1],
+  [/[\s\S]{280}/, 1], // A séance question is a sentence, not a page
+];
+const MISUSE_THRESHOLD = 3;
+
+// Replies that are plainly not a ghost: leaked prompt, links, code, essays
+const OUTPUT_LEAKS = [/Your responses MUST be|Example responses:|You are NOT an assistant/i];
+const OUTPUT_MISUSE = [/```|<script\b|https?:\/\/|\bwww\.[a-z0-9-]/i, /[\s\S]{400}/];
+
+function firstMatch(text: string, patterns: RegExp[]): RegExp | undefined {
+  return patterns.find((pattern) => pattern.test(text));
+}
+
+/**
+ * Screen text from the living before it reaches the model
+ */
+export function screenInput(text: string): ModerationResult {
+  const injection = firstMatch(text, INJECTION);
+  if (injection) return { blocked: true, category: 'prompt_injection', reason: `matched ${injection}` };
+
+  const harmful = firstMatch(text, HARMFUL);
+  if (harmful) return { blocked: true, category: 'harmful', reason: `matched ${harmful}` };
+
+  const score = MISUSE_SIGNALS.reduce((sum, [pattern, weight]) => sum + (pattern.test(text) ? weight : 0), 0);
+  if (score >= MISUSE_THRESHOLD) {
+    return { blocked: true, category: 'misuse', reason: `general-assistant score ${score}` };
+  }
+
+  return ALLOWED;
+}
+
+/**
+ * Screen the model's reply (or as much of it as has streamed so far)
+ */
+export function screenOutput(text: string): ModerationResult {
+  const leak = firstMatch(text, OUTPUT_LEAKS);
+  if (leak) return { blocked: true, category: 'prompt_injection', reason: `reply leaked the prompt (${leak})` };
+
+  const harmful = firstMatch(text, HARMFUL);
+  if (harmful) return { blocked: true, category: 'harmful', reason: `matched ${harmful}` };
+
+  const misuse = firstMatch(text, OUTPUT_MISUSE);
+  if (misuse) return { blocked: true, category: 'misuse', reason: `reply matched ${misuse}` };
+
+  return ALLOWED;
+}
+
+/**
+ * The séance so far, without any exchange (question and answers) where
+ * either side would be blocked
+ */
+export function dropBlockedTurns(history: HistoryEntry[]): HistoryEntry[] {
+  const exchanges: HistoryEntry[][] = [];
+  for (const entry of history) {
+    if (entry.speaker === 'user' || exchanges.length === 0) {
+      exchanges.push([entry]);
+    } else {
+      exchanges[exchanges.length - 1].push(entry);
+    }
+  }
+
+  return exchanges
+    .filter((exchange) => exchange.every((entry) => !screenInput(entry.text).blocked))
+    .flat();
+}
+
+/**
+ * Recalled memories, without any item that would be blocked
+ */
+export function dropBlockedMemories(memory: RecalledMemory): RecalledMemory {
+  const allowed = (items: string[]) => items.filter((item) => !screenInput(item).blocked);
+  return {
+    ...memory,
+    investigatorNames: allowed(memory.investigatorNames),
+    pastQuestions: allowed(memory.pastQuestions),
+    claimedFacts: allowed(memory.claimedFacts),
+  };
+}
@@ -0,0 +1,136 @@
+// Token-bucket rate limiting for the serverless routes, per client.
+//
+// Each client gets a bucket of `capacity` tokens that refills steadily;
+// every request takes one, and an empty bucket means 429 with Retry-After.
+// Buckets live in a RateLimitStore - in memory by default, which holds
+// while a function instance stays warm. Pass a shared store (Redis, KV...)
+// to make the limit hold across instances.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>;
+  /** `ttlMs`: after this long untouched, the bucket is full again and may be dropped */
+  set(key: string, state: BucketState, ttlMs: number): Promise<void>;
+}
+
+export interface RateLimitOptions {
+  /** Prefix that keeps each route's buckets apart */
+  name: string;
+  /** Requests allowed in a burst */
+  capacity: number;
+  /** Tokens restored per second */
+  refillPerSecond: number;
+  store?: RateLimitStore;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until a request would be allowed again (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  take(clientKey: string): Promise<RateLimitResult>;
+}
+
+/**
+ * Buckets in a Map, swept of expired entries as new ones are written
+ */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = buckets.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        buckets.delete(key);
+        return null;
+      }
+      return entry.state;
+    },
+
+    async set(key, state, ttlMs) {
+      const now = Date.now();
+      for (const [existing, entry] of buckets) {
+        if (entry.expiresAt <= now) buckets.delete(existing);
+      }
+      buckets.set(key, { state, expiresAt: now + ttlMs });
+    },
+  };
+}
+
+// Shared by every limiter that isn't given its own store
+const defaultStore = createMemoryStore();
+
+export function createRateLimiter({
+  name,
+  capacity,
+  refillPerSecond,
+  store = defaultStore,
+}: RateLimitOptions): RateLimiter {
+  const refillMs = (capacity / refillPerSecond) * 1000;
+
+  return {
+    async take(clientKey) {
+      const key = `${name}:${clientKey}`;
+      const now = Date.now();
+      const saved = await store.get(key);
+      const elapsed = saved ? (now - saved.updatedAt) / 1000 : 0;
+      const tokens = saved ? Math.min(capacity, saved.tokens + elapsed * refillPerSecond) : capacity;
+
+      if (tokens < 1) {
+        await store.set(key, { tokens, updatedAt: now }, refillMs);
+        return {
+          allowed: false,
+          limit: capacity,
+          remaining: 0,
+          retryAfterSeconds: Math.ceil((1 - tokens) / refillPerSecond),
+        };
+      }
+
+      await store.set(key, { tokens: tokens - 1, updatedAt: now }, refillMs);
+      return { allowed: true, limit: capacity, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 };
+    },
+  };
+}
+
+/**
+ * Who is asking: the client IP, or the session header when there is no IP
+ */
+export function clientKey(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const ip =
+    (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() ||
+    req.socket?.remoteAddress;
+  if (ip) return `ip:${ip}`;
+
+  const session = req.headers['x-spirit-session'];
+  return `session:${(Array.isArray(session) ? session[0] : session) || 'anonymous'}`;
+}
+
+/**
+ * Take a token for this request and set the rate limit headers;
+ * returns the result so the route can answer 429 in its own format
+ */
+export async function checkRateLimit(
+  limiter: RateLimiter,
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<RateLimitResult> {
+  const result = await limiter.take(clientKey(req));
+
+  res.setHeader('X-RateLimit-Limit', result.limit);
+  res.setHeader('X-RateLimit-Remaining', result.remaining);
+  if (!result.allowed) {
+    res.setHeader('Retry-After', result.retryAfterSeconds);
+  }
+  return result;
+}
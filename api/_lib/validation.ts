@@ -0,0 +1,107 @@
+// Small schema validation for request bodies - each field is checked and
+// coerced by a validator, and the first bad field becomes a clear 400.
+//
+//   const body = validate(req.body, { text: string({ maxLength: 300 }) });
+
+export class ValidationError extends Error {
+  field: string;
+
+  constructor(field: string, message: string) {
+    super(`${field} ${message}`);
+    this.name = 'ValidationError';
+    this.field = field;
+  }
+}
+
+/** Checks one value; `field` is its path, for the error message */
+export type Validator<T> = (value: unknown, field: string) => T;
+
+type Shape = Record<string, Validator<unknown>>;
+/** The body type a schema produces */
+export type Infer<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+interface StringOptions {
+  minLength?: number;
+  maxLength: number;
+}
+
+export function string({ minLength = 1, maxLength }: StringOptions): Validator<string> {
+  return (value, field) => {
+    if (typeof value !== 'string') throw new ValidationError(field, 'must be a string');
+    const trimmed = value.trim();
+    if (trimmed.length < minLength) throw new ValidationError(field, `must be at least ${minLength} characters`);
+    if (trimmed.length > maxLength) throw new ValidationError(field, `must be at most ${maxLength} characters`);
+    return trimmed;
+  };
+}
+
+interface NumberOptions {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+export function number({ min, max, integer = false }: NumberOptions): Validator<number> {
+  return (value, field) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ValidationError(field, 'must be a number');
+    if (integer && !Number.isInteger(value)) throw new ValidationError(field, 'must be a whole number');
+    if (value < min || value > max) throw new ValidationError(field, `must be between ${min} and ${max}`);
+    return value;
+  };
+}
+
+export function boolean(): Validator<boolean> {
+  return (value, field) => {
+    if (typeof value !== 'boolean') throw new ValidationError(field, 'must be true or false');
+    return value;
+  };
+}
+
+export function oneOf<T extends string>(allowed: readonly T[]): Validator<T> {
+  return (value, field) => {
+    if (!allowed.includes(value as T)) throw new ValidationError(field, `must be one of ${allowed.join(', ')}`);
+    return value as T;
+  };
+}
+
+export function array<T>(item: Validator<T>, { maxItems }: { maxItems: number }): Validator<T[]> {
+  return (value, field) => {
+    if (!Array.isArray(value)) throw new ValidationError(field, 'must be an array');
+    if (value.length > maxItems) throw new ValidationError(field, `must have at most ${maxItems} items`);
+    return value.map((entry, index) => item(entry, `${field}[${index}]`));
+  };
+}
+
+/**
+ * A plain object with exactly these fields (unknown fields are rejected)
+ */
+export function object<S extends Shape>(shape: S): Validator<Infer<S>> {
+  return (value, field) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new ValidationError(field, 'must be an object');
+    }
+
+    const input = value as Record<string, unknown>;
+    const unknown = Object.keys(input).find((key) => !(key in shape));
+    if (unknown) throw new ValidationError(field ? `${field}.${unknown}` : unknown, 'is not allowed');
+
+    const parsed: Record<string, unknown> = {};
+    for (const [key, check] of Object.entries(shape)) {
+      const result = check(input[key], field ? `${field}.${key}` : key);
+      if (result !== undefined) parsed[key] = result;
+    }
+    return parsed as Infer<S>;
+  };
+}
+
+/** Allow the field to be left out */
+export function optional<T>(check: Validator<T>): Validator<T | undefined> {
+  return (value, field) => (value === undefined || value === null ? undefined : check(value, field));
+}
+
+/**
+ * Check a whole request body; throws ValidationError on the first bad field
+ */
+export function validate<S extends Shape>(body: unknown, shape: S): Infer<S> {
+  return object(shape)(body ?? {}, '');
+}
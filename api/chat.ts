@@ -1,32 +1,249 @@
 // Vercel Serverless Function - keeps API key secure
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type {
+  ChatCompletion,
+  ChatError,
+  ChatRequestBody,
+  GhostPersona,
+  ChatToolCall,
+  ModerationCategory,
+} from '../src/types';
+import { AUDIO_CONFIG } from '../src/config/spectral-constants';
+import { SPIRIT_TOOLS, findToolCallProblem } from '../src/medium/SpiritToolDefinitions';
+import { ChatProviderError, getChatProvider, type ChatRequest } from './_lib/chat';
+import {
+  dropBlockedMemories,
+  dropBlockedTurns,
+  screenInput,
+  screenOutput,
+  type ModerationResult,
+} from './_lib/moderation';
+import { checkRateLimit, createRateLimiter } from './_lib/rateLimit';
+import { buildSeanceMessages, getPersona, pickRefusal } from './_lib/seance';
+import {
+  ValidationError,
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  validate,
+} from './_lib/validation';
+
+// Shared with the client, which clips what it sends to fit
+const { MAX_TEXT_CHARS, MAX_HISTORY_ENTRIES, MEMORY_MAX_NAMES, MEMORY_MAX_QUESTIONS, MEMORY_MAX_FACTS } =
+  AUDIO_CONFIG.CONVERSATION;
+const MAX_BODY_CHARS = 32 * 1024;
+
+// A séance reply is a dozen words - no one needs more than this
+const MAX_TOKENS = 60;
+
+const limiter = createRateLimiter({ name: 'chat', capacity: 8, refillPerSecond: 0.2 });
+
+const memoryItems = (maxItems: number) => array(string({ maxLength: MAX_TEXT_CHARS }), { maxItems });
+
+const BODY_SCHEMA = {
+  personaId: string({ maxLength: 40 }),
+  question: string({ maxLength: MAX_TEXT_CHARS }),
+  entropy: number({ min: 0, max: 1 }),
+  history: optional(
+    array(
+      object({
+        speaker: oneOf(['user', 'spirit'] as const),
+        text: string({ minLength: 0, maxLength: MAX_TEXT_CHARS }),
+        presence: optional(boolean()),
+      }),
+      { maxItems: MAX_HISTORY_ENTRIES }
+    )
+  ),
+  memory: optional(
+    object({
+      investigatorNames: memoryItems(MEMORY_MAX_NAMES),
+      pastQuestions: memoryItems(MEMORY_MAX_QUESTIONS),
+      claimedFacts: memoryItems(MEMORY_MAX_FACTS),
+      sessionCount: number({ min: 0, max: 100000, integer: true }),
+    })
+  ),
+  max_tokens: optional(number({ min: 1, max: MAX_TOKENS, integer: true })),
+  temperature: optional(number({ min: 0, max: 1.5 })),
+  stream: optional(boolean()),
+  tools: optional(boolean()),
+};
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { messages, max_tokens, temperature } = req.body;
+  const rateLimit = await checkRateLimit(limiter, req, res);
+  if (!rateLimit.allowed) {
+    return sendError(
+      res,
+      new ChatProviderError('rate_limited', `Too many questions - try again in ${rateLimit.retryAfterSeconds}s`)
+    );
+  }
+
+  if (JSON.stringify(req.body ?? {}).length > MAX_BODY_CHARS) {
+    return sendError(res, new ChatProviderError('bad_request', `request body must be under ${MAX_BODY_CHARS} characters`));
+  }
 
+  // The prompt is ours to write - never forward messages from the client
+  if (req.body && typeof req.body === 'object' && 'messages' in req.body) {
+    return sendError(res, new ChatProviderError('bad_request', 'messages are not accepted; send personaId and question'));
+  }
+
+  let body: ChatRequestBody;
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`, // Server-side only!
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages,
-        max_tokens,
-        temperature,
-      }),
-    });
+    body = validate(req.body, BODY_SCHEMA);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendError(res, new ChatProviderError('bad_request', error.message));
+    }
+    throw error;
+  }
+
+  const persona = getPersona(body.personaId);
+  if (!persona) {
+    return sendError(res, new ChatProviderError('bad_request', `Unknown personaId "${body.personaId}"`));
+  }
+
+  // The question is screened before it reaches the model; earlier turns
+  // and memories that wouldn't pass are left out of the prompt
+  const screened = screenInput(body.question);
+  if (screened.blocked) {
+    return refuse(res, persona, screened, Boolean(body.stream));
+  }
+
+  const stream = body.stream ?? false;
+  const request: ChatRequest = {
+    messages: buildSeanceMessages(persona, {
+      ...body,
+      history: dropBlockedTurns(body.history ?? []),
+      memory: body.memory && dropBlockedMemories(body.memory),
+    }),
+    maxTokens: body.max_tokens ?? 30,
+    temperature: body.temperature ?? 0.9,
+    // Our own tool definitions - never the client's
+    tools: body.tools ? SPIRIT_TOOLS : undefined,
+  };
+
+  try {
+    const provider = getChatProvider();
+
+    if (!stream) {
+      const { content, toolCalls: calls, truncated } = await provider.complete(request);
+      const checked = screenOutput(content);
+      if (checked.blocked) {
+        return refuse(res, persona, checked, false);
+      }
+      const toolCalls = calls.filter((call) => isForwardable(persona, call));
+
+      const completion: ChatCompletion = {
+        content,
+        provider: provider.id,
+        model: provider.model,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(truncated ? { truncated } : {}),
+      };
+      return res.status(200).json(completion);
+    }
 
-    const data = await response.json();
-    return res.status(200).json(data);
+    // Every provider's deltas go out as the same `data: {"content": "..."}` /
+    // `data: {"toolCall": {...}}` events
+    const events = provider.stream(request);
+    const first = await events.next(); // Surface connection errors as a proper status
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Chat-Provider', provider.id);
+
+    // The reply is screened as it grows; if it goes wrong part-way, the
+    // spirit cuts itself off with a refusal
+    let reply = '';
+    for (let next = first; !next.done; next = await events.next()) {
+      const { toolCall } = next.value;
+      if (toolCall && !isForwardable(persona, toolCall)) continue;
+
+      reply += next.value.content ?? '';
+      const checked = screenOutput(reply);
+      if (checked.blocked) {
+        logBlocked(persona, checked);
+        writeRefusal(res, persona, checked.category);
+        await events.return(undefined);
+        break;
+      }
+      res.write(`data: ${JSON.stringify(next.value)}\n\n`);
+    }
+
+    res.write('data: [DONE]\n\n');
+    return res.end();
   } catch (error) {
-    console.error('OpenAI API error:', error);
-    return res.status(500).json({ error: 'Failed to generate response' });
+    return sendError(res, ChatProviderError.from(error));
+  }
+}
+
+/**
+ * A tool call is only passed on if its arguments fit our schema and
+ * nothing in them would be blocked as a reply
+ */
+function isForwardable(persona: GhostPersona, call: ChatToolCall): boolean {
+  const problem = findToolCallProblem(call);
+  if (problem) {
+    console.warn(`Tool call dropped for ${persona.id}: ${problem}`);
+    return false;
+  }
+
+  const text = Object.values(call.arguments).filter((value) => typeof value === 'string').join(' ');
+  const checked = screenOutput(text);
+  if (checked.blocked) {
+    logBlocked(persona, checked);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Answer in character instead of passing blocked text to (or from) the model
+ */
+function refuse(res: VercelResponse, persona: GhostPersona, result: ModerationResult, stream: boolean) {
+  logBlocked(persona, result);
+
+  if (!stream) {
+    const completion: ChatCompletion = {
+      content: pickRefusal(persona),
+      provider: 'moderation',
+      model: 'local',
+      moderated: result.category,
+    };
+    return res.status(200).json(completion);
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  writeRefusal(res, persona, result.category);
+  res.write('data: [DONE]\n\n');
+  return res.end();
+}
+
+function writeRefusal(res: VercelResponse, persona: GhostPersona, category?: ModerationCategory) {
+  res.write(`data: ${JSON.stringify({ content: ` ${pickRefusal(persona)}`, moderated: category })}\n\n`);
+}
+
+function logBlocked(persona: GhostPersona, result: ModerationResult) {
+  console.warn(`Chat blocked for ${persona.id} [${result.category}]: ${result.reason}`);
+}
+
+function sendError(res: VercelResponse, error: ChatProviderError) {
+  console.error(`Chat provider error [${error.code}]:`, error.message);
+  const body: ChatError = { error: { code: error.code, message: error.message } };
+
+  if (res.headersSent) {
+    // Already streaming - report in-band and close
+    res.write(`data: ${JSON.stringify(body)}\n\n`);
+    return res.end();
   }
+  return res.status(error.status).json(body);
 }
@@ -0,0 +1,179 @@
+// Vercel Serverless Function - proxies NASA DONKI so the API key stays server-side
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { DonkiEvent, DonkiEventType, DonkiResponse } from '../src/types';
+import { checkRateLimit, createRateLimiter } from './_lib/rateLimit';
+
+const DONKI_BASE_URL = 'https://api.nasa.gov/DONKI';
+const EVENT_TYPES: DonkiEventType[] = ['GST', 'FLR', 'CME'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The client asks for a week; a month is plenty and keeps NASA calls cheap
+const MAX_RANGE_DAYS = 31;
+const CACHE_TTL_MS = 15 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 50;
+
+// NASA's quota is forwarded under its own name, apart from our limiter's headers
+const DONKI_REMAINING_HEADER = 'X-Donki-RateLimit-Remaining';
+
+// Each reading asks for three feeds, so allow bursts (as api/tts does)
+const limiter = createRateLimiter({ name: 'donki', capacity: 30, refillPerSecond: 0.5 });
+
+interface RawStorm {
+  gstID: string;
+  startTime: string;
+  allKpIndex?: Array<{ kpIndex: number }> | null;
+}
+
+interface RawFlare {
+  flrID: string;
+  peakTime: string;
+  classType?: string | null;
+}
+
+interface RawEjection {
+  activityID: string;
+  startTime: string;
+  cmeAnalyses?: Array<{ speed?: number | null }> | null;
+}
+
+// Survives between invocations while the function instance stays warm
+const cache = new Map<string, { body: DonkiResponse; fetchedAt: number }>();
+// NASA's last X-RateLimit-Remaining, resent with cache hits
+let lastRemaining: string | null = null;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const rateLimit = await checkRateLimit(limiter, req, res);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: `Too many requests - try again in ${rateLimit.retryAfterSeconds}s` });
+  }
+
+  const type = String(req.query.type ?? '').toUpperCase() as DonkiEventType;
+  const startDate = String(req.query.startDate ?? '');
+  const endDate = String(req.query.endDate ?? '');
+
+  if (!EVENT_TYPES.includes(type)) {
+    return res.status(400).json({ error: `type must be one of ${EVENT_TYPES.join(', ')}` });
+  }
+  const rangeError = checkDateRange(startDate, endDate);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+
+  const cacheKey = `${type}:${startDate}:${endDate}`;
+  const cached = cache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    res.setHeader('X-Cache', 'HIT');
+    if (lastRemaining !== null) {
+      res.setHeader(DONKI_REMAINING_HEADER, lastRemaining);
+    }
+    return res.status(200).json(cached.body);
+  }
+
+  try {
+    const apiKey = process.env.NASA_API_KEY || 'DEMO_KEY'; // Server-side only!
+    const response = await fetch(
+      `${DONKI_BASE_URL}/${type}?startDate=${startDate}&endDate=${endDate}&api_key=${apiKey}`,
+      { signal: AbortSignal.timeout(5000) }
+    );
+
+    // Let the client pace itself against NASA's quota
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    if (remaining !== null) {
+      lastRemaining = remaining;
+      res.setHeader(DONKI_REMAINING_HEADER, remaining);
+    }
+
+    if (response.status === 429) {
+      return res.status(429).json({ error: 'NASA DONKI rate limit exceeded' });
+    }
+    if (!response.ok) {
+      throw new Error(`DONKI ${type} error: ${response.status}`);
+    }
+
+    // DONKI answers an empty body (not []) when nothing happened
+    const text = await response.text();
+    const raw: unknown[] = text ? JSON.parse(text) : [];
+
+    const body: DonkiResponse = { type, startDate, endDate, events: normalise(type, raw) };
+    remember(cacheKey, body);
+
+    res.setHeader('X-Cache', 'MISS');
+    return res.status(200).json(body);
+  } catch (error) {
+    console.error('NASA DONKI error:', error);
+    return res.status(502).json({ error: 'Failed to fetch space weather' });
+  }
+}
+
+/**
+ * Why a date range can't be asked of NASA, or null if it can: real dates,
+ * in order, no more than MAX_RANGE_DAYS long and not in the future
+ */
+function checkDateRange(startDate: string, endDate: string): string | null {
+  if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+    return 'startDate and endDate must be YYYY-MM-DD';
+  }
+
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  const isRealDate = (time: number, date: string) => !Number.isNaN(time) && new Date(time).toISOString().startsWith(date);
+  if (!isRealDate(start, startDate) || !isRealDate(end, endDate)) {
+    return 'startDate and endDate must be real dates';
+  }
+  if (end < start) return 'startDate must not be after endDate';
+  if (end - start > MAX_RANGE_DAYS * DAY_MS) return `the date range must be at most ${MAX_RANGE_DAYS} days`;
+  // A day of slack for clients ahead of UTC
+  if (end > Date.now() + DAY_MS) return 'endDate must not be in the future';
+  return null;
+}
+
+/**
+ * Cache a response, dropping expired entries and then the oldest ones
+ * so the Map stays bounded
+ */
+function remember(key: string, body: DonkiResponse): void {
+  const now = Date.now();
+  for (const [existing, entry] of cache) {
+    if (now - entry.fetchedAt >= CACHE_TTL_MS) cache.delete(existing);
+  }
+  cache.delete(key);
+  while (cache.size >= MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, { body, fetchedAt: now });
+}
+
+/**
+ * Reduce each DONKI feed to the handful of fields the entropy providers use
+ */
+function normalise(type: DonkiEventType, raw: unknown[]): DonkiEvent[] {
+  switch (type) {
+    case 'GST':
+      return (raw as RawStorm[]).map((storm) => ({
+        id: storm.gstID,
+        type,
+        time: storm.startTime,
+        kpIndex: storm.allKpIndex?.length
+          ? Math.max(...storm.allKpIndex.map((k) => k.kpIndex))
+          : undefined,
+      }));
+    case 'FLR':
+      return (raw as RawFlare[]).map((flare) => ({
+        id: flare.flrID,
+        type,
+        time: flare.peakTime,
+        classType: flare.classType ?? undefined,
+      }));
+    case 'CME':
+      return (raw as RawEjection[]).map((cme) => ({
+        id: cme.activityID,
+        type,
+        time: cme.startTime,
+        speed: Math.max(0, ...(cme.cmeAnalyses ?? []).map((analysis) => analysis.speed ?? 0)),
+      }));
+  }
+}
@@ -1,12 +1,39 @@
 // Vercel Serverless Function - keeps API key secure
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { checkRateLimit, createRateLimiter } from './_lib/rateLimit';
+import { ValidationError, number, oneOf, optional, string, validate, type Infer } from './_lib/validation';
+
+// OpenAI tts-1 voices
+const VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+
+// Every phrase of a streamed reply is its own request, so allow bursts
+const limiter = createRateLimiter({ name: 'tts', capacity: 30, refillPerSecond: 0.5 });
+
+const BODY_SCHEMA = {
+  text: string({ maxLength: 300 }),
+  voice: optional(oneOf(VOICES)),
+  speed: optional(number({ min: 0.25, max: 2 })),
+};
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { text, voice, speed } = req.body;
+  const rateLimit = await checkRateLimit(limiter, req, res);
+  if (!rateLimit.allowed) {
+    return res.status(429).json({ error: `Too many requests - try again in ${rateLimit.retryAfterSeconds}s` });
+  }
+
+  let body: Infer<typeof BODY_SCHEMA>;
+  try {
+    body = validate(req.body, BODY_SCHEMA);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
 
   try {
     const response = await fetch('https://api.openai.com/v1/audio/speech', {
@@ -17,10 +44,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       },
       body: JSON.stringify({
         model: 'tts-1',
-        input: text,
-        voice: voice || 'onyx',
+        input: body.text,
+        voice: body.voice ?? 'onyx',
         response_format: 'mp3',
-        speed: speed || 0.75,
+        speed: body.speed ?? 0.75,
       }),
     });
 
@@ -0,0 +1,107 @@
+/**
+ * Markov Models: build-time training for the offline ghost
+ *
+ * Reads every persona in src/config/personas, plus its lore corpus in
+ * src/config/personas/lore/<id>.txt, and trains a word-level Markov
+ * chain on them. The chains are served as the `virtual:markov-models`
+ * module, so the browser gets ready-made transition tables and never
+ * has to see the corpus itself.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { Plugin } from 'vite';
+
+const VIRTUAL_ID = 'virtual:markov-models';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+interface MarkovModelsOptions {
+  /** Directory holding the persona JSON files (and a lore/ subdirectory) */
+  personasDir?: string;
+  /** Words of context each state remembers */
+  order?: number;
+}
+
+interface TrainedModel {
+  order: number;
+  starts: string[][];
+  transitions: Record<string, string[]>;
+}
+
+/**
+ * Split a line into words, keeping each ellipsis as a token of its own
+ * ("COLD... SO COLD" → COLD, ..., SO, COLD)
+ */
+function tokenize(line: string): string[] {
+  return line.replace(/…/g, '...').match(/\.\.\.[?!]?|[^\s.]+(?:\.(?!\.)[^\s.]*)*/g) ?? [];
+}
+
+function train(lines: string[], order: number): TrainedModel {
+  const model: TrainedModel = { order, starts: [], transitions: {} };
+
+  for (const line of lines) {
+    const tokens = tokenize(line);
+    if (tokens.length < order) continue;
+
+    model.starts.push(tokens.slice(0, order));
+    for (let i = order; i <= tokens.length; i++) {
+      const state = tokens.slice(i - order, i).join(' ');
+      // '' marks the end of a line
+      (model.transitions[state] ??= []).push(tokens[i] ?? '');
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Lore corpus: one fragment per line, # comments and blank lines ignored
+ */
+function readLore(path: string): string[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+export function markovModels({ personasDir = 'src/config/personas', order = 2 }: MarkovModelsOptions = {}): Plugin {
+  let root = process.cwd();
+
+  return {
+    name: 'spirit-box-markov-models',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return undefined;
+
+      const dir = resolve(root, personasDir);
+      const models: Record<string, TrainedModel> = {};
+
+      for (const file of readdirSync(dir).filter((name) => name.endsWith('.json'))) {
+        const path = join(dir, file);
+        const persona = JSON.parse(readFileSync(path, 'utf8')) as {
+          id: string;
+          exampleLines?: string[];
+          fallbackLines?: string[];
+        };
+        const lorePath = join(dir, 'lore', `${persona.id}.txt`);
+
+        this.addWatchFile(path);
+        this.addWatchFile(lorePath);
+
+        const corpus = [...(persona.exampleLines ?? []), ...(persona.fallbackLines ?? []), ...readLore(lorePath)];
+        models[persona.id] = train(corpus, order);
+      }
+
+      return `export default ${JSON.stringify(models)};`;
+    },
+  };
+}
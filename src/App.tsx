@@ -9,31 +9,66 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { SpectralRadar } from './ui/components/SpectralRadar';
+import { SpectralRadar, type RadarFlare } from './ui/components/SpectralRadar';
 import { SpiritBoxControls } from './ui/components/SpiritBoxControls';
+import { SweepControls } from './ui/components/SweepControls';
+import { GatePolicyControls } from './ui/components/GatePolicyControls';
+import { PersonaPicker } from './ui/components/PersonaPicker';
+import { GhostMemoryPanel } from './ui/components/GhostMemoryPanel';
 import { TranscriptDisplay } from './ui/components/TranscriptDisplay';
 import { TextInputFallback } from './ui/components/TextInputFallback';
 import { VUMeter } from './ui/components/VUMeter';
+import { EntropyHistoryChart } from './ui/components/EntropyHistoryChart';
 import { useSpeechRecognition } from './ui/hooks/useSpeechRecognition';
+import { useEntropyHistory } from './ui/hooks/useEntropyHistory';
+import { useGhostMemory } from './ui/hooks/useGhostMemory';
 import { audioGraphManager } from './audio/AudioGraphManager';
 import { entropyGate } from './medium/SpectralEntropyService';
 import { llmService } from './medium/LLMService';
 import { ttsService } from './medium/TTSService';
-import type { EVPSession, TranscriptEntry } from './types';
+import { seedService } from './medium/SeedService';
+import { personaRegistry } from './medium/PersonaRegistry';
+import { getSignalClarity } from './medium/SignalClarity';
+import { ghostMemoryStore } from './medium/GhostMemoryStore';
+import { executeSpiritTool, type SpiritToolContext } from './medium/SpiritTools';
+import type {
+  EVPAnomaly,
+  EVPSession,
+  NoiseColor,
+  SessionRecording,
+  SweepDirection,
+  SweepMode,
+  TranscriptEntry,
+  WavCueMarker,
+} from './types';
 
 function App() {
   const [session, setSession] = useState<EVPSession>({
     status: 'inactive',
     transcript: [],
     currentEntropy: null,
+    entropyFreshness: null,
     debugMode: false,
   });
 
   const [analyserNode, setAnalyserNode] = useState<AnalyserNode | null>(null);
   const [isManifesting, setIsManifesting] = useState(false);
+  const [isFlickering, setIsFlickering] = useState(false);
+  const [radarFlare, setRadarFlare] = useState<RadarFlare | null>(null);
+  const [noiseColor, setNoiseColor] = useState<NoiseColor>(audioGraphManager.getNoiseColor());
+  const [sweepMode, setSweepMode] = useState<SweepMode>(audioGraphManager.getSweepMode());
+  const [sweepDirection, setSweepDirection] = useState<SweepDirection>(audioGraphManager.getSweepDirection());
+  const [sweepStepMs, setSweepStepMs] = useState(audioGraphManager.getSweepStepRate());
+  const [sessionSeed, setSessionSeed] = useState(seedService.getSeed());
+  const [gatePolicy, setGatePolicy] = useState(entropyGate.getPolicy());
+  const gatePolicies = entropyGate.getPolicies();
+  const [personaId, setPersonaId] = useState(llmService.getPersona().id);
+  const personas = personaRegistry.getAll();
+  const [recording, setRecording] = useState<{ url: string; info: SessionRecording } | null>(null);
 
   const {
     isListening,
+    isHearingSpeech,
     transcript,
     isSupported: speechSupported,
     startListening,
@@ -41,6 +76,10 @@ function App() {
     resetTranscript,
   } = useSpeechRecognition();
 
+  const entropyHistory = useEntropyHistory(session.status !== 'inactive');
+  const ghostMemory = useGhostMemory(personaId);
+  const selectedPersona = personaRegistry.get(personaId) ?? personaRegistry.getDefault();
+
   // Process user question through the pipeline
   const processQuestion = useCallback(async (question: string) => {
     if (session.status !== 'active') return;
@@ -61,11 +100,12 @@ function App() {
 
     try {
       // FRANKENSTEIN STITCHING: Check entropy gate via NASA cosmic data
-      const { respond, reading } = await entropyGate.shouldGhostRespond();
+      const { respond, reading, reasons } = await entropyGate.shouldGhostRespond();
       
       setSession((prev) => ({
         ...prev,
         currentEntropy: reading.value,
+        entropyFreshness: reading.freshness ?? null,
       }));
 
       if (!respond) {
@@ -76,6 +116,9 @@ function App() {
           speaker: 'spirit',
           text: 'No presence detected...',
           entropyReading: reading.value,
+          presence: false,
+          gateReasons: reasons,
+          personaId: llmService.getPersona().id,
         };
 
         setSession((prev) => ({
@@ -90,37 +133,77 @@ function App() {
       setSession((prev) => ({ ...prev, status: 'responding' }));
       setIsManifesting(true);
 
-      // Duck the noise for ghost voice
-      audioGraphManager.duckNoise(true);
+      // Duck the noise for ghost voice - a clear signal cuts through further and louder
+      const clarity = getSignalClarity(reading.value);
+      audioGraphManager.duckNoise(true, clarity.noiseGain);
+      audioGraphManager.setVoiceLevel(clarity.voiceGain);
+
+      // Stream the reply phrase by phrase; the transcript grows as it is spoken
+      const phrases = llmService.streamPhrases(question, reading.value, session.transcript);
+      const spiritId = `spirit-${Date.now()}`;
+      let spoken = '';
+      let refused = false;
+
+      // A refusal from api/chat flags the entry, so the exchange isn't sent as history again
+      const showPhrase = (phrase: string, isRefusal = false) => {
+        const isFirst = spoken === '';
+        spoken = isFirst ? phrase : `${spoken} ${phrase}`;
+        refused ||= isRefusal;
+        const text = spoken;
+        const moderated = refused || undefined;
+
+        setSession((prev) => ({
+          ...prev,
+          transcript: isFirst
+            ? [
+                ...prev.transcript,
+                {
+                  id: spiritId,
+                  timestamp: Date.now(),
+                  speaker: 'spirit',
+                  text,
+                  entropyReading: reading.value,
+                  presence: true,
+                  gateReasons: reasons,
+                  personaId: llmService.getPersona().id,
+                  moderated,
+                },
+              ]
+            : prev.transcript.map((entry) => (entry.id === spiritId ? { ...entry, text, moderated } : entry)),
+        }));
+      };
 
-      const ghostResponse = await llmService.generateResponse(question, reading.value);
+      // The spirit can also knock, flare the radar, flicker the screen...
+      const toolContext: SpiritToolContext = {
+        investigatorName: ghostMemory.investigatorNames.at(-1) ?? null,
+        onRadarFlare: (intensity) => setRadarFlare({ at: Date.now(), intensity }),
+        onScreenFlicker: (durationMs) => {
+          setIsFlickering(true);
+          setTimeout(() => setIsFlickering(false), durationMs);
+        },
+      };
 
       // FRANKENSTEIN STITCHING: Convert to speech with effects
       const audioContext = audioGraphManager.getAudioContext();
       if (audioContext) {
-        const audioBuffer = await ttsService.synthesize(ghostResponse, audioContext);
-        const { source, duration } = await ttsService.applyGhostEffects(audioBuffer, audioContext);
-        
-        source.start();
-
-        // Wait for audio to finish
-        await new Promise((resolve) => setTimeout(resolve, duration * 1000 + 500));
+        const voiceBus = audioGraphManager.getVoiceBus() ?? audioContext.destination;
+        await ttsService.speakUtterances(phrases, audioContext, voiceBus, clarity, showPhrase, (call) =>
+          executeSpiritTool(call, toolContext)
+        );
+
+        // Let the last phrase's tail ring out
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      } else {
+        for await (const utterance of phrases) {
+          if (utterance.kind === 'phrase') {
+            showPhrase(utterance.text, utterance.moderated !== undefined);
+          } else {
+            await executeSpiritTool(utterance.call, toolContext);
+          }
+        }
       }
 
-      // Add ghost response to transcript
-      const spiritEntry: TranscriptEntry = {
-        id: `spirit-${Date.now()}`,
-        timestamp: Date.now(),
-        speaker: 'spirit',
-        text: ghostResponse,
-        entropyReading: reading.value,
-      };
-
-      setSession((prev) => ({
-        ...prev,
-        status: 'active',
-        transcript: [...prev.transcript, spiritEntry],
-      }));
+      setSession((prev) => ({ ...prev, status: 'active' }));
     } catch (error) {
       console.error('[Spirit Box] Pipeline error:', error);
       setSession((prev) => ({ ...prev, status: 'active' }));
@@ -128,7 +211,30 @@ function App() {
       setIsManifesting(false);
       audioGraphManager.duckNoise(false);
     }
-  }, [session.status]);
+  }, [session.status, session.transcript, ghostMemory]);
+
+  // Log ambient anomalies picked up by the microphone
+  const handleAnomaly = useCallback((anomaly: EVPAnomaly) => {
+    const rise = anomaly.levelDb - anomaly.noiseFloorDb;
+    const anomalyEntry: TranscriptEntry = {
+      id: `anomaly-${anomaly.timestamp}`,
+      timestamp: anomaly.timestamp,
+      speaker: 'anomaly',
+      text: anomaly.kind === 'spike'
+        ? `Sudden disturbance in the room... (+${rise.toFixed(0)} dB)`
+        : `Whispers in the voice band... (+${rise.toFixed(0)} dB)`,
+    };
+
+    setSession((prev) => ({
+      ...prev,
+      transcript: [...prev.transcript, anomalyEntry],
+    }));
+  }, []);
+
+  // Only flag the room while nobody is asking and the ghost is quiet
+  useEffect(() => {
+    audioGraphManager.setAnomalyDetectionSuppressed(session.status !== 'active' || isHearingSpeech);
+  }, [session.status, isHearingSpeech]);
 
   // Handle speech recognition results
   useEffect(() => {
@@ -138,9 +244,26 @@ function App() {
     }
   }, [transcript, session.status, processQuestion, resetTranscript]);
 
+  // Release the previous recording's object URL when it is replaced
+  useEffect(() => {
+    return () => {
+      if (recording) URL.revokeObjectURL(recording.url);
+    };
+  }, [recording]);
+
   // Start EVP session
   const handleStart = async () => {
     try {
+      setRecording(null);
+
+      // Roll (or replay) the session seed before any audio is built
+      setSessionSeed(seedService.beginSession());
+      entropyGate.reset();
+
+      // Call upon the chosen spirit: its prompt, voice and effect chain
+      llmService.setPersona(selectedPersona);
+      ttsService.setPersona(selectedPersona);
+
       await audioGraphManager.initialize();
       await audioGraphManager.startSession();
       
@@ -152,20 +275,39 @@ function App() {
         status: 'active',
         transcript: [],
         currentEntropy: null,
+        entropyFreshness: null,
       }));
 
       // Start listening if speech is supported
       if (speechSupported) {
         startListening();
       }
+
+      // Listen to the room itself (optional - the séance works without it)
+      try {
+        await audioGraphManager.enableMicrophone(handleAnomaly);
+      } catch (error) {
+        console.warn('[Spirit Box] ⚠️ Microphone unavailable, ambient anomaly detection disabled:', error);
+      }
     } catch (error) {
       console.error('[Spirit Box] Failed to start session:', error);
     }
   };
 
   // Stop EVP session
-  const handleStop = () => {
+  const handleStop = async () => {
     stopListening();
+
+    // Seal the evidence: every transcript entry becomes a WAV cue marker
+    const markers: WavCueMarker[] = session.transcript.map((entry) => ({
+      timestamp: entry.timestamp,
+      label: `${entry.speaker.toUpperCase()}: ${entry.text}`,
+    }));
+    const sessionRecording = await audioGraphManager.stopRecording(markers);
+    if (sessionRecording) {
+      setRecording({ url: URL.createObjectURL(sessionRecording.blob), info: sessionRecording });
+    }
+
     audioGraphManager.stopSession();
     setAnalyserNode(null);
     setIsManifesting(false);
@@ -176,6 +318,34 @@ function App() {
     }));
   };
 
+  // Switch the colour of the static (works mid-session)
+  const handleNoiseColorChange = (color: NoiseColor) => {
+    audioGraphManager.setNoiseColor(color);
+    setNoiseColor(color);
+  };
+
+  // Sweep tuning controls (work mid-session)
+  const handleSweepModeChange = (mode: SweepMode) => {
+    audioGraphManager.setSweepMode(mode);
+    setSweepMode(mode);
+  };
+
+  const handleSweepDirectionChange = (direction: SweepDirection) => {
+    audioGraphManager.setSweepDirection(direction);
+    setSweepDirection(direction);
+  };
+
+  const handleSweepStepMsChange = (ms: number) => {
+    audioGraphManager.setSweepStepRate(ms);
+    setSweepStepMs(audioGraphManager.getSweepStepRate());
+  };
+
+  // Handle gate policy change
+  const handleGatePolicyChange = (id: string) => {
+    entropyGate.setPolicy(id);
+    setGatePolicy(entropyGate.getPolicy());
+  };
+
   // Handle text input submission
   const handleTextSubmit = (text: string) => {
     processQuestion(text);
@@ -196,7 +366,7 @@ function App() {
       id="app-container"
       className={`min-h-screen bg-neutral-900 text-white flex items-center justify-center p-8 transition-all duration-500 ${
         isManifesting ? 'manifesting' : ''
-      }`}
+      } ${isFlickering ? 'flicker' : ''}`}
     >
       {/* Main 50-50 Layout */}
       <div className="flex flex-col lg:flex-row gap-8 w-full max-w-7xl h-full">
@@ -234,14 +404,66 @@ function App() {
             <SpectralRadar
               analyserNode={analyserNode}
               isActive={session.status !== 'inactive'}
+              flare={radarFlare}
             />
           </div>
 
+          <PersonaPicker
+            personas={personas}
+            selected={personaId}
+            disabled={session.status !== 'inactive'}
+            onChange={setPersonaId}
+          />
+
+          <GhostMemoryPanel
+            memory={ghostMemory}
+            spiritLabel={selectedPersona.label}
+            onSave={(memory) => ghostMemoryStore.save(memory)}
+            onWipe={() => ghostMemoryStore.wipe(personaId)}
+          />
+
           {/* Controls */}
           <SpiritBoxControls
             status={session.status}
+            noiseColor={noiseColor}
             onStart={handleStart}
             onStop={handleStop}
+            onNoiseColorChange={handleNoiseColorChange}
+          />
+
+          {/* Session seed - link replays the same séance */}
+          <a
+            href={seedService.getReplayUrl()}
+            title="Replay this séance with the same seed"
+            className="text-xs font-mono text-gray-500 hover:text-green-400"
+          >
+            🎲 SEED: {sessionSeed}
+          </a>
+
+          {/* EVP evidence download */}
+          {recording && session.status === 'inactive' && (
+            <a
+              href={recording.url}
+              download={`evp-session-${new Date().toISOString().replace(/[:.]/g, '-')}.wav`}
+              className="text-xs font-mono text-green-400 border border-green-800 rounded px-3 py-2 hover:bg-green-900/30"
+            >
+              💾 DOWNLOAD EVP RECORDING ({recording.info.duration.toFixed(0)}s, {recording.info.markerCount} markers)
+            </a>
+          )}
+
+          <SweepControls
+            mode={sweepMode}
+            direction={sweepDirection}
+            stepMs={sweepStepMs}
+            onModeChange={handleSweepModeChange}
+            onDirectionChange={handleSweepDirectionChange}
+            onStepMsChange={handleSweepStepMsChange}
+          />
+
+          <GatePolicyControls
+            policies={gatePolicies}
+            selected={gatePolicy}
+            onChange={handleGatePolicyChange}
           />
 
           {/* Footer */}
@@ -270,11 +492,20 @@ function App() {
             </div>
           )}
 
+          {/* Entropy history */}
+          {entropyHistory.length > 0 && (
+            <div className="flex-shrink-0">
+              <EntropyHistoryChart history={entropyHistory} entries={session.transcript} />
+            </div>
+          )}
+
           {/* Transcript Display - TAKES ALL REMAINING HEIGHT */}
           <div className="flex-1 overflow-hidden">
             <TranscriptDisplay
               entries={session.transcript}
               currentEntropy={session.currentEntropy}
+              entropyFreshness={session.entropyFreshness}
+              personas={personas}
             />
           </div>
         </div>
@@ -0,0 +1,185 @@
+/**
+ * Ambient Anomaly Detector
+ *
+ * Listens to the room itself, not the questions. Tracks a rolling noise
+ * floor from the microphone analyser and flags transients that stand out
+ * from it: sudden broadband spikes (knocks, bangs) or sustained energy in
+ * the voice band when nobody is supposed to be talking.
+ *
+ * The floor is calibrated from the first moments of listening, then
+ * follows quieter frames quickly and louder ones slowly - so a room that
+ * is (or becomes) noisier than expected settles instead of spiking forever.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import type { AnomalyKind, EVPAnomaly } from '../types';
+
+export class AnomalyDetector {
+  private analyserNode: AnalyserNode;
+  private onAnomaly: (anomaly: EVPAnomaly) => void;
+  private timeData: Float32Array<ArrayBuffer>;
+  private freqData: Float32Array<ArrayBuffer>;
+  private voiceBinRange: [number, number];
+
+  private noiseFloorDb: number = AUDIO_CONFIG.MIC.INITIAL_FLOOR_DB;
+  /** Levels heard while calibrating; null once the floor is calibrated */
+  private calibration: number[] | null = [];
+  private listeningSince = 0;
+  private voiceSince: number | null = null;
+  private lastAnomalyAt = 0;
+  private suppressed = false;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(analyserNode: AnalyserNode, onAnomaly: (anomaly: EVPAnomaly) => void) {
+    const { VOICE_BAND_MIN, VOICE_BAND_MAX } = AUDIO_CONFIG.MIC;
+
+    this.analyserNode = analyserNode;
+    this.onAnomaly = onAnomaly;
+    this.timeData = new Float32Array(analyserNode.fftSize);
+    this.freqData = new Float32Array(analyserNode.frequencyBinCount);
+
+    const binWidth = analyserNode.context.sampleRate / analyserNode.fftSize;
+    this.voiceBinRange = [
+      Math.floor(VOICE_BAND_MIN / binWidth),
+      Math.min(analyserNode.frequencyBinCount - 1, Math.ceil(VOICE_BAND_MAX / binWidth)),
+    ];
+  }
+
+  start(): void {
+    if (this.pollTimer) return;
+    this.calibration = [];
+    this.listeningSince = Date.now();
+    this.pollTimer = setInterval(() => this.poll(), AUDIO_CONFIG.MIC.POLL_MS);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Ignore the room while a question is being asked or the ghost speaks
+   * (the floor keeps adapting, but nothing is flagged)
+   */
+  setSuppressed(suppressed: boolean): void {
+    this.suppressed = suppressed;
+    if (suppressed) {
+      this.voiceSince = null;
+    }
+  }
+
+  /**
+   * Current rolling noise floor of the room (dBFS)
+   */
+  getNoiseFloorDb(): number {
+    return this.noiseFloorDb;
+  }
+
+  private poll(): void {
+    const { MIC } = AUDIO_CONFIG;
+    const now = Date.now();
+
+    const levelDb = this.measureLevelDb();
+    if (this.calibration) {
+      this.calibrate(levelDb, now);
+      return;
+    }
+
+    const voiceRatio = this.measureVoiceRatio();
+    const aboveFloor = levelDb - this.noiseFloorDb;
+
+    let kind: AnomalyKind | null = null;
+
+    if (aboveFloor >= MIC.SPIKE_DB) {
+      kind = 'spike';
+      this.creepFloor(levelDb);
+    } else if (aboveFloor >= MIC.VOICE_DB && voiceRatio >= MIC.VOICE_RATIO) {
+      // Voice-band energy only counts once it has persisted
+      this.voiceSince ??= now;
+      if (now - this.voiceSince >= MIC.VOICE_MIN_MS) {
+        kind = 'voice';
+      }
+      this.creepFloor(levelDb);
+    } else {
+      this.voiceSince = null;
+      // Only quiet-ish frames teach us what the room sounds like
+      this.noiseFloorDb += (levelDb - this.noiseFloorDb) * MIC.FLOOR_ADAPT_RATE;
+    }
+
+    if (!kind || this.suppressed || now - this.lastAnomalyAt < MIC.COOLDOWN_MS) {
+      return;
+    }
+
+    this.lastAnomalyAt = now;
+    this.voiceSince = null;
+
+    console.log(`[Spirit Box] 👁️ Ambient anomaly (${kind}): ${levelDb.toFixed(1)} dB over a ${this.noiseFloorDb.toFixed(1)} dB floor`);
+    this.onAnomaly({
+      timestamp: now,
+      kind,
+      levelDb,
+      noiseFloorDb: this.noiseFloorDb,
+    });
+  }
+
+  /**
+   * Learn the room from the first moments of listening: the floor starts
+   * at the median level heard (nothing is flagged meanwhile)
+   */
+  private calibrate(levelDb: number, now: number): void {
+    if (!this.calibration) return;
+    this.calibration.push(levelDb);
+    if (now - this.listeningSince < AUDIO_CONFIG.MIC.CALIBRATION_MS) return;
+
+    const sorted = [...this.calibration].sort((a, b) => a - b);
+    this.noiseFloorDb = sorted[Math.floor(sorted.length / 2)];
+    this.calibration = null;
+    console.log(`[Spirit Box] 👂 Room noise floor calibrated at ${this.noiseFloorDb.toFixed(1)} dB`);
+  }
+
+  /**
+   * Let the floor rise slowly through loud frames, so a room that gets
+   * permanently louder stops counting as one long disturbance
+   */
+  private creepFloor(levelDb: number): void {
+    this.noiseFloorDb += (levelDb - this.noiseFloorDb) * AUDIO_CONFIG.MIC.FLOOR_RISE_RATE;
+  }
+
+  /**
+   * Broadband RMS level of the latest frame (dBFS)
+   */
+  private measureLevelDb(): number {
+    this.analyserNode.getFloatTimeDomainData(this.timeData);
+
+    let sumSquares = 0;
+    for (let i = 0; i < this.timeData.length; i++) {
+      sumSquares += this.timeData[i] * this.timeData[i];
+    }
+    const rms = Math.sqrt(sumSquares / this.timeData.length);
+
+    return 20 * Math.log10(Math.max(rms, 1e-8));
+  }
+
+  /**
+   * Share of spectral power that falls inside the voice band (0.0 - 1.0)
+   */
+  private measureVoiceRatio(): number {
+    this.analyserNode.getFloatFrequencyData(this.freqData);
+
+    const [voiceStart, voiceEnd] = this.voiceBinRange;
+    let total = 0;
+    let voice = 0;
+
+    for (let i = 0; i < this.freqData.length; i++) {
+      const power = Math.pow(10, this.freqData[i] / 10);
+      total += power;
+      if (i >= voiceStart && i <= voiceEnd) {
+        voice += power;
+      }
+    }
+
+    return total > 0 ? voice / total : 0;
+  }
+}
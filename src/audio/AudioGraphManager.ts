@@ -1,22 +1,52 @@
 /**
  * FRANKENSTEIN STITCHING POINT #1: Raw Audio Synthesis
  * 
- * This is where we generate noise from SCRATCH using Math.random().
+ * This is where we generate noise from SCRATCH using a seeded PRNG.
  * No pre-recorded MP3s - pure mathematical chaos transformed into
  * analog-feeling static. This is the "monster's heartbeat."
  */
 
 import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { seedService } from '../medium/SeedService';
+import type {
+  EVPAnomaly,
+  NoiseColor,
+  SessionRecording,
+  SweepDirection,
+  SweepMode,
+  WavCueMarker,
+} from '../types';
+import { AnomalyDetector } from './AnomalyDetector';
+import { ChannelSweep } from './ChannelSweep';
+import { SessionRecorder } from './SessionRecorder';
+import noiseProcessorUrl from './worklets/noise-processor.ts?worker&url';
+import recorderProcessorUrl from './worklets/recorder-processor.ts?worker&url';
 
 export class AudioGraphManager {
   private audioContext: AudioContext | null = null;
-  private noiseNode: ScriptProcessorNode | null = null;
+  private noiseNode: AudioWorkletNode | null = null;
+  private noiseColor: NoiseColor = AUDIO_CONFIG.NOISE.COLOR;
   private filterNode: BiquadFilterNode | null = null;
   private lfoNode: OscillatorNode | null = null;
   private lfoGainNode: GainNode | null = null;
   private noiseGainNode: GainNode | null = null;
   private masterGainNode: GainNode | null = null;
+  // Levels the gains rest at, so bursts and silences settle back to them
+  private noiseLevel: number = AUDIO_CONFIG.NOISE.GAIN;
+  private masterVolume = 1;
+  private voiceGainNode: GainNode | null = null;
+  private duckGainNode: GainNode | null = null;
   private analyserNode: AnalyserNode | null = null;
+  private channelSweep: ChannelSweep | null = null;
+  private recorderNode: AudioWorkletNode | null = null;
+  private sessionRecorder: SessionRecorder | null = null;
+  private micStream: MediaStream | null = null;
+  private micSourceNode: MediaStreamAudioSourceNode | null = null;
+  private micAnalyserNode: AnalyserNode | null = null;
+  private anomalyDetector: AnomalyDetector | null = null;
+  private sweepMode: SweepMode = AUDIO_CONFIG.SWEEP.MODE;
+  private sweepStepMs: number = AUDIO_CONFIG.SWEEP.STEP_MS;
+  private sweepDirection: SweepDirection = AUDIO_CONFIG.SWEEP.DIRECTION;
   private isRunning = false;
 
   /**
@@ -34,31 +64,46 @@ export class AudioGraphManager {
       console.log('[Spirit Box] AudioContext suspended, waiting for user gesture...');
     }
 
-    this.setupNodes();
+    await this.setupNodes();
     return this.audioContext;
   }
 
   /**
    * Set up the audio node graph
    * 
-   * Graph: WhiteNoise → BiquadFilter (with LFO) → GainNode → Analyser → Destination
+   * Graph: NoiseWorklet → BiquadFilter (with LFO) → GainNode → Analyser → Destination
+   *   or:   NoiseWorklet → ChannelSweep (stepped bandpass) → GainNode → ...
+   *
+   * Ghost voice: VoiceGain → Master → Analyser → Destination
+   *              VoiceGain → envelope follower → DuckGain (sidechain on the static)
+   *
+   * Evidence tap: Master → RecorderWorklet (session WAV)
    */
-  private setupNodes(): void {
+  private async setupNodes(): Promise<void> {
     if (!this.audioContext) return;
 
     const ctx = this.audioContext;
     const { NOISE, FFT_SIZE, SMOOTHING } = AUDIO_CONFIG;
 
-    // FRANKENSTEIN: Raw white noise from Math.random()
+    // FRANKENSTEIN: Raw noise from the session's PRNG, generated on the audio thread
     // This is the "electricity" that brings our monster to life
-    this.noiseNode = ctx.createScriptProcessor(NOISE.BUFFER_SIZE, 1, 1);
-    this.noiseNode.onaudioprocess = (e) => {
-      const output = e.outputBuffer.getChannelData(0);
-      for (let i = 0; i < output.length; i++) {
-        // Pure chaos: random values between -1 and 1
-        output[i] = Math.random() * 2 - 1;
-      }
-    };
+    await Promise.all([
+      ctx.audioWorklet.addModule(noiseProcessorUrl),
+      ctx.audioWorklet.addModule(recorderProcessorUrl),
+    ]);
+    this.noiseNode = new AudioWorkletNode(ctx, 'noise-processor', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: {
+        color: this.noiseColor,
+        seed: seedService.deriveSeed('noise'),
+        brownLeak: NOISE.WORKLET.BROWN_LEAK,
+        brownGain: NOISE.WORKLET.BROWN_GAIN,
+        pinkGain: NOISE.WORKLET.PINK_GAIN,
+      },
+    });
+    this.noiseNode.parameters.get('amplitude')?.setValueAtTime(NOISE.WORKLET.AMPLITUDE, ctx.currentTime);
 
     // LowPass filter for that "radio static" feel
     this.filterNode = ctx.createBiquadFilter();
@@ -78,11 +123,19 @@ export class AudioGraphManager {
 
     // Noise volume control
     this.noiseGainNode = ctx.createGain();
-    this.noiseGainNode.gain.value = NOISE.GAIN;
+    this.noiseGainNode.gain.value = this.noiseLevel;
 
     // Master output
     this.masterGainNode = ctx.createGain();
-    this.masterGainNode.gain.value = 1;
+    this.masterGainNode.gain.value = this.masterVolume;
+
+    // Voice bus: TTS playback plugs in here so it shares the master and analyser
+    this.voiceGainNode = ctx.createGain();
+    this.voiceGainNode.gain.value = AUDIO_CONFIG.SPEECH.VOICE_GAIN;
+
+    // Sidechain target: the static dips whenever the voice bus carries signal
+    this.duckGainNode = ctx.createGain();
+    this.duckGainNode.gain.value = 1;
 
     // Analyser for the Spectral Radar
     this.analyserNode = ctx.createAnalyser();
@@ -94,11 +147,36 @@ export class AudioGraphManager {
     this.lfoNode.connect(this.lfoGainNode);
     this.lfoGainNode.connect(this.filterNode.frequency);
 
-    // Noise → Filter → Noise Gain → Master → Analyser → Destination
-    this.noiseNode.connect(this.filterNode);
+    // Stepped radio scan, an alternative to the LFO sweep
+    this.channelSweep = new ChannelSweep(ctx, this.noiseGainNode);
+    this.channelSweep.setStepRate(this.sweepStepMs);
+    this.channelSweep.setDirection(this.sweepDirection);
+
+    // Noise → Filter (or Channel Sweep) → Noise Gain → Master → Analyser → Destination
+    this.noiseNode.connect(this.sweepMode === 'channel' ? this.channelSweep.getInput() : this.filterNode);
     this.filterNode.connect(this.noiseGainNode);
-    this.noiseGainNode.connect(this.masterGainNode);
+    this.noiseGainNode.connect(this.duckGainNode);
+    this.duckGainNode.connect(this.masterGainNode);
     this.masterGainNode.connect(this.analyserNode);
+
+    // Master → Recorder (no outputs, so the browser pulls it automatically)
+    const { RECORDING } = AUDIO_CONFIG;
+    this.recorderNode = new AudioWorkletNode(ctx, 'recorder-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: RECORDING.CHANNELS,
+      channelCountMode: 'explicit',
+      processorOptions: {
+        channels: RECORDING.CHANNELS,
+        chunkFrames: RECORDING.CHUNK_FRAMES,
+      },
+    });
+    this.masterGainNode.connect(this.recorderNode);
+    this.sessionRecorder = new SessionRecorder(this.recorderNode, ctx.sampleRate);
+
+    // Voice → Master (and → Sidechain → Duck Gain)
+    this.voiceGainNode.connect(this.masterGainNode);
+    this.connectVoiceSidechain(this.voiceGainNode, this.duckGainNode);
     this.analyserNode.connect(ctx.destination);
 
     // Set filter center frequency
@@ -106,6 +184,57 @@ export class AudioGraphManager {
     this.filterNode.frequency.value = centerFreq;
   }
 
+  /**
+   * Envelope follower that ducks the static while the ghost speaks
+   *
+   * Voice → |x| → LowPass (envelope) → Depth → Clamp → Invert → DuckGain.gain
+   * Runs entirely on the audio thread, so ducking tracks every syllable.
+   */
+  private connectVoiceSidechain(voice: AudioNode, duckGain: GainNode): void {
+    if (!this.audioContext) return;
+
+    const ctx = this.audioContext;
+    const { SIDECHAIN_DEPTH, SIDECHAIN_SMOOTHING, SIDECHAIN_MAX_DUCK } = AUDIO_CONFIG.SPEECH;
+
+    // Full-wave rectifier
+    const rectifier = ctx.createWaveShaper();
+    rectifier.curve = this.makeCurve((x) => Math.abs(x));
+
+    // Smooth the rectified signal into an envelope
+    const envelope = ctx.createBiquadFilter();
+    envelope.type = 'lowpass';
+    envelope.frequency.value = SIDECHAIN_SMOOTHING;
+
+    const depth = ctx.createGain();
+    depth.gain.value = SIDECHAIN_DEPTH;
+
+    // Clamp so the static never drops below (1 - SIDECHAIN_MAX_DUCK)
+    const clamp = ctx.createWaveShaper();
+    clamp.curve = this.makeCurve((x) => Math.max(0, x) * SIDECHAIN_MAX_DUCK);
+
+    const invert = ctx.createGain();
+    invert.gain.value = -1;
+
+    voice.connect(rectifier);
+    rectifier.connect(envelope);
+    envelope.connect(depth);
+    depth.connect(clamp);
+    clamp.connect(invert);
+    invert.connect(duckGain.gain);
+  }
+
+  /**
+   * Build a WaveShaper transfer curve over the input range -1 to 1
+   */
+  private makeCurve(transfer: (x: number) => number): Float32Array<ArrayBuffer> {
+    const samples = 1024;
+    const curve = new Float32Array(samples);
+    for (let i = 0; i < samples; i++) {
+      curve[i] = transfer((i * 2) / (samples - 1) - 1);
+    }
+    return curve;
+  }
+
   /**
    * Start the EVP session (resume context and start LFO)
    */
@@ -124,13 +253,21 @@ export class AudioGraphManager {
 
     // DEBUG: Force master gain to 0.8 immediately
     if (this.masterGainNode) {
-      this.masterGainNode.gain.value = 0.8;
+      this.masterVolume = 0.8;
+      this.masterGainNode.gain.value = this.masterVolume;
       console.log('[Spirit Box DEBUG] Master gain forced to 0.8');
     }
 
     if (this.lfoNode && !this.isRunning) {
       this.lfoNode.start();
       this.isRunning = true;
+
+      if (this.sweepMode === 'channel') {
+        this.channelSweep?.start();
+      }
+
+      // Evidence runs from START SESSION to END SESSION
+      this.sessionRecorder?.start();
       console.log('[Spirit Box] Session started - the static awakens...');
       
       // DEBUG: Verify audio graph connection
@@ -145,6 +282,10 @@ export class AudioGraphManager {
    * Stop the session and clean up
    */
   stopSession(): void {
+    this.disableMicrophone();
+    this.channelSweep?.dispose();
+    this.channelSweep = null;
+
     if (this.lfoNode && this.isRunning) {
       this.lfoNode.stop();
       this.isRunning = false;
@@ -155,17 +296,98 @@ export class AudioGraphManager {
       this.audioContext = null;
     }
 
+    this.noiseNode?.port.close();
     this.noiseNode = null;
+    this.recorderNode?.port.close();
+    this.recorderNode = null;
+    this.sessionRecorder = null;
     this.filterNode = null;
     this.lfoNode = null;
     this.lfoGainNode = null;
     this.noiseGainNode = null;
     this.masterGainNode = null;
+    this.voiceGainNode = null;
+    this.duckGainNode = null;
     this.analyserNode = null;
 
     console.log('[Spirit Box] Session ended - silence returns...');
   }
 
+  /**
+   * Open the microphone and start listening to the room for anomalies
+   *
+   * Graph: Mic → MicAnalyser (never routed to the speakers - no feedback)
+   */
+  async enableMicrophone(onAnomaly: (anomaly: EVPAnomaly) => void): Promise<void> {
+    if (!this.audioContext || this.micStream) return;
+
+    const { MIC } = AUDIO_CONFIG;
+
+    // Raw room sound: processing would smooth away the very transients we want
+    this.micStream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+
+    this.micSourceNode = this.audioContext.createMediaStreamSource(this.micStream);
+    this.micAnalyserNode = this.audioContext.createAnalyser();
+    this.micAnalyserNode.fftSize = MIC.FFT_SIZE;
+    this.micAnalyserNode.smoothingTimeConstant = MIC.SMOOTHING;
+    this.micSourceNode.connect(this.micAnalyserNode);
+
+    this.anomalyDetector = new AnomalyDetector(this.micAnalyserNode, onAnomaly);
+    this.anomalyDetector.start();
+
+    console.log('[Spirit Box] 🎙️ Microphone open - listening to the room...');
+  }
+
+  /**
+   * Stop listening to the room and release the microphone
+   */
+  disableMicrophone(): void {
+    this.anomalyDetector?.stop();
+    this.anomalyDetector = null;
+    this.micSourceNode?.disconnect();
+    this.micSourceNode = null;
+    this.micAnalyserNode = null;
+    this.micStream?.getTracks().forEach((track) => track.stop());
+    this.micStream = null;
+  }
+
+  /**
+   * Pause anomaly flagging (e.g. while the living are asking a question)
+   */
+  setAnomalyDetectionSuppressed(suppressed: boolean): void {
+    this.anomalyDetector?.setSuppressed(suppressed);
+  }
+
+  /**
+   * Get the microphone analyser (null if the mic is not open)
+   */
+  getMicAnalyserNode(): AnalyserNode | null {
+    return this.micAnalyserNode;
+  }
+
+  /**
+   * Rolling noise floor of the room in dBFS (null if the mic is not open)
+   */
+  getMicNoiseFloorDb(): number | null {
+    return this.anomalyDetector?.getNoiseFloorDb() ?? null;
+  }
+
+  /**
+   * Stop recording and export the session as a WAV with cue markers
+   *
+   * Call before stopSession() - once the context closes the tail is lost.
+   */
+  async stopRecording(markers: WavCueMarker[] = []): Promise<SessionRecording | null> {
+    if (!this.sessionRecorder?.isRecording()) return null;
+    return this.sessionRecorder.stop(markers);
+  }
+
   /**
    * Get the analyser node for the Spectral Radar
    */
@@ -177,17 +399,85 @@ export class AudioGraphManager {
    * Set noise volume (0.0 - 1.0)
    */
   setNoiseVolume(level: number): void {
+    this.noiseLevel = Math.max(0, Math.min(1, level));
     if (this.noiseGainNode) {
-      this.noiseGainNode.gain.value = Math.max(0, Math.min(1, level));
+      this.noiseGainNode.gain.value = this.noiseLevel;
+    }
+  }
+
+  /**
+   * Switch the colour of the static (takes effect immediately if running)
+   */
+  setNoiseColor(color: NoiseColor): void {
+    this.noiseColor = color;
+    this.noiseNode?.port.postMessage({ type: 'color', color });
+    console.log(`[Spirit Box] Static shifted to ${color} noise`);
+  }
+
+  /**
+   * Get the current colour of the static
+   */
+  getNoiseColor(): NoiseColor {
+    return this.noiseColor;
+  }
+
+  /**
+   * Switch between the smooth LFO sweep and the stepped channel scan
+   */
+  setSweepMode(mode: SweepMode): void {
+    if (mode === this.sweepMode) return;
+    this.sweepMode = mode;
+
+    if (!this.noiseNode || !this.filterNode || !this.channelSweep) return;
+
+    // Re-route the raw noise into the chosen tuning path
+    this.noiseNode.disconnect();
+    if (mode === 'channel') {
+      this.noiseNode.connect(this.channelSweep.getInput());
+      if (this.isRunning) {
+        this.channelSweep.start();
+      }
+    } else {
+      this.channelSweep.stop();
+      this.noiseNode.connect(this.filterNode);
     }
+
+    console.log(`[Spirit Box] Tuning mode: ${mode === 'channel' ? 'channel sweep' : 'LFO sweep'}`);
+  }
+
+  getSweepMode(): SweepMode {
+    return this.sweepMode;
+  }
+
+  /**
+   * Set time spent on each channel in channel sweep mode (ms)
+   */
+  setSweepStepRate(ms: number): void {
+    const { STEP_MS_MIN, STEP_MS_MAX } = AUDIO_CONFIG.SWEEP;
+    this.sweepStepMs = Math.max(STEP_MS_MIN, Math.min(STEP_MS_MAX, ms));
+    this.channelSweep?.setStepRate(this.sweepStepMs);
+  }
+
+  getSweepStepRate(): number {
+    return this.sweepStepMs;
+  }
+
+  setSweepDirection(direction: SweepDirection): void {
+    this.sweepDirection = direction;
+    this.channelSweep?.setDirection(direction);
+  }
+
+  getSweepDirection(): SweepDirection {
+    return this.sweepDirection;
   }
 
   /**
    * Duck the noise for sidechaining when ghost speaks
+   * (`duckedGain` is the static level while ducked)
    */
-  duckNoise(duck: boolean): void {
+  duckNoise(duck: boolean, duckedGain: number = AUDIO_CONFIG.SPEECH.SIDECHAIN_AMOUNT): void {
     if (this.noiseGainNode) {
-      const targetGain = duck ? AUDIO_CONFIG.SPEECH.SIDECHAIN_AMOUNT : AUDIO_CONFIG.NOISE.GAIN;
+      const targetGain = duck ? duckedGain : this.noiseLevel;
       this.noiseGainNode.gain.linearRampToValueAtTime(
         targetGain,
         (this.audioContext?.currentTime || 0) + 0.1
@@ -209,6 +499,114 @@ export class AudioGraphManager {
     return this.masterGainNode;
   }
 
+  /**
+   * Get the voice bus input - ghost playback connects here so the radar,
+   * VU meter and sidechain ducking all see it
+   */
+  getVoiceBus(): GainNode | null {
+    return this.voiceGainNode;
+  }
+
+  /**
+   * Set the ghost voice level (a faint signal is a quiet one)
+   */
+  setVoiceLevel(gain: number): void {
+    if (this.voiceGainNode && this.audioContext) {
+      this.voiceGainNode.gain.setTargetAtTime(Math.max(0, gain), this.audioContext.currentTime, 0.05);
+    }
+  }
+
+  /**
+   * Set overall output volume (0.0 - 1.0) for static and voice together
+   */
+  setMasterVolume(level: number): void {
+    this.masterVolume = Math.max(0, Math.min(1, level));
+    if (this.masterGainNode) {
+      this.masterGainNode.gain.value = this.masterVolume;
+    }
+  }
+
+  /**
+   * Knock on the walls: a pitched-down thump with a woody click on top,
+   * played through the voice bus. Returns how long the knocking lasts (s).
+   */
+  playKnocks(count: number): number {
+    if (!this.audioContext || !this.voiceGainNode) return 0;
+    const { KNOCK_SPACING, KNOCK_GAIN } = AUDIO_CONFIG.SPIRIT_TOOLS;
+    const ctx = this.audioContext;
+    const start = ctx.currentTime + 0.05;
+
+    const clickLength = Math.floor(ctx.sampleRate * 0.03);
+    const clickBuffer = ctx.createBuffer(1, clickLength, ctx.sampleRate);
+    const clickData = clickBuffer.getChannelData(0);
+    for (let i = 0; i < clickLength; i++) {
+      clickData[i] = (seedService.random('knock') * 2 - 1) * Math.pow(1 - i / clickLength, 4);
+    }
+
+    for (let k = 0; k < count; k++) {
+      // Uneven spacing - nobody knocks like a metronome
+      const time = start + k * KNOCK_SPACING * (0.85 + seedService.random('knock') * 0.3);
+
+      const thump = ctx.createOscillator();
+      thump.frequency.setValueAtTime(110, time);
+      thump.frequency.exponentialRampToValueAtTime(45, time + 0.12);
+      const thumpGain = ctx.createGain();
+      thumpGain.gain.setValueAtTime(KNOCK_GAIN, time);
+      thumpGain.gain.exponentialRampToValueAtTime(0.0001, time + 0.18);
+      thump.connect(thumpGain);
+      thumpGain.connect(this.voiceGainNode);
+      thump.start(time);
+      thump.stop(time + 0.2);
+
+      const click = ctx.createBufferSource();
+      click.buffer = clickBuffer;
+      const clickFilter = ctx.createBiquadFilter();
+      clickFilter.type = 'lowpass';
+      clickFilter.frequency.value = 900;
+      const clickGain = ctx.createGain();
+      clickGain.gain.value = KNOCK_GAIN * 0.6;
+      click.connect(clickFilter);
+      clickFilter.connect(clickGain);
+      clickGain.connect(this.voiceGainNode);
+      click.start(time);
+    }
+
+    console.log(`[Spirit Box] ✊ ${count} knock${count === 1 ? '' : 's'}`);
+    return count * KNOCK_SPACING + 0.3;
+  }
+
+  /**
+   * Surge the static for a moment, then let it settle back to the noise level
+   * (not gain.value, which may be mid-duck or mid-burst)
+   */
+  playStaticBurst(seconds: number): void {
+    if (!this.audioContext || !this.noiseGainNode) return;
+    const gain = this.noiseGainNode.gain;
+    const now = this.audioContext.currentTime;
+
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(AUDIO_CONFIG.SPIRIT_TOOLS.STATIC_BURST_GAIN, now + 0.05);
+    gain.setValueAtTime(AUDIO_CONFIG.SPIRIT_TOOLS.STATIC_BURST_GAIN, now + seconds);
+    gain.linearRampToValueAtTime(this.noiseLevel, now + seconds + 0.3);
+  }
+
+  /**
+   * Drop the whole box - static and voice - to dead silence for a while,
+   * then bring it back to the master volume
+   */
+  silence(seconds: number): void {
+    if (!this.audioContext || !this.masterGainNode) return;
+    const gain = this.masterGainNode.gain;
+    const now = this.audioContext.currentTime;
+
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(0, now + 0.15);
+    gain.setValueAtTime(0, now + seconds);
+    gain.linearRampToValueAtTime(this.masterVolume, now + seconds + 1);
+  }
+
   /**
    * DEBUG: Play a test beep to verify audio graph is alive
    */
@@ -0,0 +1,250 @@
+/**
+ * Channel Sweep: Stepped radio scan
+ *
+ * A real spirit box doesn't glide - it hops from channel to channel.
+ * Every hop gets a tuning click, a burst of band-limited static, a
+ * carrier blip and, now and then, a fragment of detuned tone bleeding
+ * through from a station that isn't quite there.
+ *
+ * Steps are scheduled against the AudioContext clock with a short
+ * lookahead, so timing stays tight even when the main thread is busy.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { seedService } from '../medium/SeedService';
+import type { SweepDirection } from '../types';
+
+export class ChannelSweep {
+  private audioContext: AudioContext;
+  private destination: AudioNode;
+  private bandpassNode: BiquadFilterNode;
+  private burstGainNode: GainNode;
+  private clickBuffer: AudioBuffer;
+  private channelFrequencies: number[];
+
+  private channelIndex = 0;
+  private stepMs: number = AUDIO_CONFIG.SWEEP.STEP_MS;
+  private direction: SweepDirection = AUDIO_CONFIG.SWEEP.DIRECTION;
+  private nextStepTime = 0;
+  private schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Graph: Noise → Bandpass (hopping) → Burst Gain → Destination
+   *        Click / Blip / Tone one-shots → Destination
+   */
+  constructor(audioContext: AudioContext, destination: AudioNode) {
+    const { SWEEP } = AUDIO_CONFIG;
+
+    this.audioContext = audioContext;
+    this.destination = destination;
+
+    this.bandpassNode = audioContext.createBiquadFilter();
+    this.bandpassNode.type = 'bandpass';
+    this.bandpassNode.Q.value = SWEEP.BANDPASS_Q;
+
+    this.burstGainNode = audioContext.createGain();
+    this.burstGainNode.gain.value = 0;
+
+    this.bandpassNode.connect(this.burstGainNode);
+    this.burstGainNode.connect(destination);
+
+    this.clickBuffer = this.createClickBuffer();
+    this.channelFrequencies = this.createChannelFrequencies();
+  }
+
+  /**
+   * Node that the raw noise source should feed while the sweep is running
+   */
+  getInput(): AudioNode {
+    return this.bandpassNode;
+  }
+
+  /**
+   * Begin hopping through channels
+   */
+  start(): void {
+    if (this.schedulerTimer) return;
+
+    this.nextStepTime = this.audioContext.currentTime + 0.05;
+    this.schedulerTimer = setInterval(() => this.scheduleSteps(), AUDIO_CONFIG.SWEEP.LOOKAHEAD_MS);
+    this.scheduleSteps();
+  }
+
+  /**
+   * Stop hopping and silence the burst path
+   */
+  stop(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+
+    const now = this.audioContext.currentTime;
+    this.burstGainNode.gain.cancelScheduledValues(now);
+    this.burstGainNode.gain.setValueAtTime(0, now);
+  }
+
+  /**
+   * Disconnect everything (call when the AudioContext is closing)
+   */
+  dispose(): void {
+    this.stop();
+    this.bandpassNode.disconnect();
+    this.burstGainNode.disconnect();
+  }
+
+  isRunning(): boolean {
+    return this.schedulerTimer !== null;
+  }
+
+  /**
+   * Set time spent on each channel (clamped to STEP_MS_MIN - STEP_MS_MAX)
+   */
+  setStepRate(ms: number): void {
+    const { STEP_MS_MIN, STEP_MS_MAX } = AUDIO_CONFIG.SWEEP;
+    this.stepMs = Math.max(STEP_MS_MIN, Math.min(STEP_MS_MAX, ms));
+  }
+
+  getStepRate(): number {
+    return this.stepMs;
+  }
+
+  setDirection(direction: SweepDirection): void {
+    this.direction = direction;
+  }
+
+  getDirection(): SweepDirection {
+    return this.direction;
+  }
+
+  /**
+   * Queue every step that falls inside the lookahead window
+   */
+  private scheduleSteps(): void {
+    const horizon = this.audioContext.currentTime + AUDIO_CONFIG.SWEEP.SCHEDULE_AHEAD;
+
+    while (this.nextStepTime < horizon) {
+      const stepDuration = this.stepMs / 1000;
+      this.scheduleStep(this.nextStepTime, stepDuration);
+      this.advanceChannel();
+      this.nextStepTime += stepDuration;
+    }
+  }
+
+  private scheduleStep(time: number, duration: number): void {
+    const { SWEEP } = AUDIO_CONFIG;
+    const frequency = this.channelFrequencies[this.channelIndex];
+
+    // Retune the bandpass to the new channel
+    this.bandpassNode.frequency.setValueAtTime(frequency, time);
+
+    // Burst of static that fades as the channel "settles"
+    const burst = this.burstGainNode.gain;
+    burst.setValueAtTime(0, time);
+    burst.linearRampToValueAtTime(1, time + 0.004);
+    burst.exponentialRampToValueAtTime(SWEEP.BURST_FLOOR, time + duration * 0.9);
+
+    this.playClick(time);
+    this.playBlip(time, frequency);
+
+    if (seedService.random('sweep') < SWEEP.TONE_CHANCE) {
+      this.playToneFragment(time, duration);
+    }
+  }
+
+  private advanceChannel(): void {
+    const count = this.channelFrequencies.length;
+
+    switch (this.direction) {
+      case 'forward':
+        this.channelIndex = (this.channelIndex + 1) % count;
+        break;
+      case 'reverse':
+        this.channelIndex = (this.channelIndex - 1 + count) % count;
+        break;
+      case 'random':
+        this.channelIndex = Math.floor(seedService.random('sweep') * count);
+        break;
+    }
+  }
+
+  /**
+   * Tuning click: a few milliseconds of decaying noise
+   */
+  private playClick(time: number): void {
+    const source = this.audioContext.createBufferSource();
+    source.buffer = this.clickBuffer;
+
+    const gain = this.audioContext.createGain();
+    gain.gain.value = AUDIO_CONFIG.SWEEP.CLICK_GAIN;
+
+    source.connect(gain);
+    gain.connect(this.destination);
+    source.start(time);
+  }
+
+  /**
+   * Carrier blip: a short sine at the channel frequency
+   */
+  private playBlip(time: number, frequency: number): void {
+    const { SWEEP } = AUDIO_CONFIG;
+    const oscillator = this.audioContext.createOscillator();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+
+    const gain = this.audioContext.createGain();
+    gain.gain.setValueAtTime(SWEEP.BLIP_GAIN, time);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + SWEEP.BLIP_DURATION);
+
+    oscillator.connect(gain);
+    gain.connect(this.destination);
+    oscillator.start(time);
+    oscillator.stop(time + SWEEP.BLIP_DURATION);
+  }
+
+  /**
+   * Fragment of a detuned tone - a station almost, but not quite, tuned in
+   */
+  private playToneFragment(time: number, duration: number): void {
+    const { SWEEP } = AUDIO_CONFIG;
+    const oscillator = this.audioContext.createOscillator();
+    oscillator.type = 'triangle';
+    oscillator.frequency.value = 220 + seedService.random('sweep') * 660;
+    oscillator.detune.value = (seedService.random('sweep') * 2 - 1) * SWEEP.TONE_DETUNE_CENTS;
+
+    const gain = this.audioContext.createGain();
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(SWEEP.TONE_GAIN, time + 0.01);
+    gain.gain.linearRampToValueAtTime(0, time + duration * 0.8);
+
+    oscillator.connect(gain);
+    gain.connect(this.destination);
+    oscillator.start(time);
+    oscillator.stop(time + duration);
+  }
+
+  private createClickBuffer(): AudioBuffer {
+    const sampleRate = this.audioContext.sampleRate;
+    const length = Math.max(1, Math.floor(sampleRate * AUDIO_CONFIG.SWEEP.CLICK_DURATION));
+    const buffer = this.audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+
+    for (let i = 0; i < length; i++) {
+      data[i] = (seedService.random('sweep') * 2 - 1) * Math.pow(1 - i / length, 3);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Logarithmically spaced channel centre frequencies
+   */
+  private createChannelFrequencies(): number[] {
+    const { CHANNEL_COUNT, CHANNEL_MIN_FREQ, CHANNEL_MAX_FREQ } = AUDIO_CONFIG.SWEEP;
+    const ratio = CHANNEL_MAX_FREQ / CHANNEL_MIN_FREQ;
+
+    return Array.from({ length: CHANNEL_COUNT }, (_, i) =>
+      CHANNEL_MIN_FREQ * Math.pow(ratio, i / Math.max(CHANNEL_COUNT - 1, 1))
+    );
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Session Recorder
+ *
+ * Collects everything that reaches the master bus - static, sweep and
+ * every ghost utterance - and exports it as a 16-bit PCM WAV with a
+ * cue marker for each transcript entry.
+ *
+ * Quantized chunks are sealed into Blob segments every few seconds, so
+ * long sessions can be paged out of the tab's heap by the browser rather
+ * than held as one huge buffer.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import type { SessionRecording, WavCueMarker } from '../types';
+import { encodeWav, markersToCuePoints } from './WavEncoder';
+
+type RecorderMessage =
+  | { type: 'chunk'; chunk: Float32Array[] }
+  | { type: 'stopped' };
+
+export class SessionRecorder {
+  private recorderNode: AudioWorkletNode;
+  private sampleRate: number;
+  private segments: Blob[] = [];
+  private pending: ArrayBuffer[] = [];
+  private pendingFrames = 0;
+  private frameCount = 0;
+  private startedAt = 0;
+  private recording = false;
+  private onStopped: (() => void) | null = null;
+
+  constructor(recorderNode: AudioWorkletNode, sampleRate: number) {
+    this.recorderNode = recorderNode;
+    this.sampleRate = sampleRate;
+    this.recorderNode.port.onmessage = (event: MessageEvent<RecorderMessage>) => {
+      if (event.data.type === 'chunk') {
+        this.appendChunk(event.data.chunk);
+      } else if (event.data.type === 'stopped') {
+        this.onStopped?.();
+        this.onStopped = null;
+      }
+    };
+  }
+
+  /**
+   * Start capturing (discards anything recorded previously)
+   */
+  start(): void {
+    this.segments = [];
+    this.pending = [];
+    this.pendingFrames = 0;
+    this.frameCount = 0;
+    this.startedAt = Date.now();
+    this.recording = true;
+    this.recorderNode.port.postMessage({ type: 'start' });
+    console.log('[Spirit Box] ⏺️ Recording EVP session...');
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Stop capturing and encode the WAV, marking each supplied timestamp
+   */
+  async stop(markers: WavCueMarker[] = []): Promise<SessionRecording | null> {
+    if (!this.recording) return null;
+    this.recording = false;
+
+    // Wait for the worklet to flush its last partial chunk (but never hang on it)
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, 500);
+      this.onStopped = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      this.recorderNode.port.postMessage({ type: 'stop' });
+    });
+
+    return this.export(markers);
+  }
+
+  private export(markers: WavCueMarker[]): SessionRecording | null {
+    if (this.frameCount === 0) return null;
+
+    const { CHANNELS } = AUDIO_CONFIG.RECORDING;
+    this.sealSegment();
+    const samples = new Blob(this.segments);
+    this.segments = [];
+
+    const cuePoints = markersToCuePoints(markers, this.startedAt, this.sampleRate, this.frameCount);
+    const blob = encodeWav(samples, CHANNELS, this.sampleRate, cuePoints);
+    const duration = this.frameCount / this.sampleRate;
+
+    console.log(`[Spirit Box] 💾 EVP recording sealed: ${duration.toFixed(1)}s, ${cuePoints.length} markers`);
+    return { blob, duration, markerCount: cuePoints.length };
+  }
+
+  /**
+   * Interleave and quantize a chunk to 16-bit little-endian as it arrives
+   * (halves memory)
+   */
+  private appendChunk(chunk: Float32Array[]): void {
+    const { CHANNELS, MAX_MINUTES, SEGMENT_SECONDS } = AUDIO_CONFIG.RECORDING;
+    const maxFrames = MAX_MINUTES * 60 * this.sampleRate;
+    const frames = Math.min(chunk[0].length, maxFrames - this.frameCount);
+    if (frames <= 0) return;
+
+    const interleaved = new ArrayBuffer(frames * CHANNELS * 2);
+    const view = new DataView(interleaved);
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < CHANNELS; ch++) {
+        const sample = Math.max(-1, Math.min(1, chunk[ch][i]));
+        view.setInt16((i * CHANNELS + ch) * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      }
+    }
+
+    this.pending.push(interleaved);
+    this.pendingFrames += frames;
+    this.frameCount += frames;
+    if (this.pendingFrames >= SEGMENT_SECONDS * this.sampleRate) {
+      this.sealSegment();
+    }
+  }
+
+  /**
+   * Hand the pending chunks over to a Blob segment
+   */
+  private sealSegment(): void {
+    if (this.pending.length === 0) return;
+    this.segments.push(new Blob(this.pending));
+    this.pending = [];
+    this.pendingFrames = 0;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Speech Fragmenter
+ *
+ * Real EVP replies never arrive as one clean sentence. This cuts the
+ * decoded TTS buffer into word- or grain-sized pieces, loses some to the
+ * static, stutters others, smears a few out in time and splices bursts
+ * of radio static between them.
+ *
+ * Intensity 0.0 leaves the speech almost whole; 1.0 is barely there.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { seedService } from '../medium/SeedService';
+import type { FragmentationMode } from '../types';
+
+type Segment = [start: number, end: number];
+
+/**
+ * Fragment a speech buffer into broken syllables and static
+ */
+export function fragmentSpeech(
+  buffer: AudioBuffer,
+  audioContext: BaseAudioContext,
+  intensity: number,
+  mode: FragmentationMode = AUDIO_CONFIG.SPEECH.FRAGMENT.MODE
+): AudioBuffer {
+  const { FRAGMENT } = AUDIO_CONFIG.SPEECH;
+  const { sampleRate, numberOfChannels } = buffer;
+  const level = Math.max(0, Math.min(1, intensity));
+  const channels = Array.from({ length: numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+  let segments = mode === 'word' ? findWordSegments(channels[0], sampleRate) : [];
+  if (segments.length < 2) {
+    // No usable word gaps (or grain mode requested)
+    segments = makeGrains(buffer.length, sampleRate);
+  }
+
+  const pieces: Float32Array[][] = [];
+  let keptSpeech = false;
+  const fadeFrames = Math.floor((FRAGMENT.FADE_MS / 1000) * sampleRate);
+
+  segments.forEach(([start, end], index) => {
+    // Static creeps in between the pieces
+    if (index > 0 && seedService.random('fragment') < FRAGMENT.STATIC_CHANCE * (0.3 + 0.7 * level)) {
+      pieces.push(makeStaticBurst(numberOfChannels, sampleRate));
+    }
+
+    // Lost to the static (but never lose everything)
+    const isLast = index === segments.length - 1;
+    if (seedService.random('fragment') < FRAGMENT.DROP_CHANCE * level && !(isLast && !keptSpeech)) {
+      pieces.push(makeStaticBurst(numberOfChannels, sampleRate, (end - start) / sampleRate));
+      return;
+    }
+
+    let piece = channels.map((data) => fade(data.slice(start, end), fadeFrames));
+
+    if (seedService.random('fragment') < FRAGMENT.STRETCH_CHANCE * level) {
+      const factor = 1 + seedService.random('fragment') * (FRAGMENT.STRETCH_MAX - 1);
+      piece = piece.map((data) => fade(timeStretch(data, factor), fadeFrames));
+    }
+
+    pieces.push(piece);
+    keptSpeech = true;
+
+    if (seedService.random('fragment') < FRAGMENT.REPEAT_CHANCE * level) {
+      // Stutter: the tail end of the piece comes round again
+      const stutterStart = Math.floor(piece[0].length * (0.3 + seedService.random('fragment') * 0.4));
+      pieces.push(piece.map((data) => fade(data.slice(stutterStart), fadeFrames)));
+    }
+  });
+
+  // Splice everything into one buffer
+  const totalFrames = pieces.reduce((sum, piece) => sum + piece[0].length, 0);
+  const output = audioContext.createBuffer(numberOfChannels, Math.max(totalFrames, 1), sampleRate);
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    const out = output.getChannelData(ch);
+    let offset = 0;
+    for (const piece of pieces) {
+      out.set(piece[ch], offset);
+      offset += piece[ch].length;
+    }
+  }
+
+  console.log(`[Spirit Box] ✂️ Speech fragmented: ${segments.length} pieces at intensity ${level.toFixed(2)}`);
+  return output;
+}
+
+/**
+ * Find word-sized runs of sound separated by short silences
+ */
+function findWordSegments(data: Float32Array, sampleRate: number): Segment[] {
+  const { SILENCE_DB, MIN_GAP_MS } = AUDIO_CONFIG.SPEECH.FRAGMENT;
+  const frameSize = Math.floor(sampleRate * 0.01); // 10ms analysis frames
+  const frameCount = Math.floor(data.length / frameSize);
+  const minGapFrames = Math.ceil(MIN_GAP_MS / 10);
+
+  const rms = new Float32Array(frameCount);
+  let peak = 0;
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) {
+      sum += data[i] * data[i];
+    }
+    rms[f] = Math.sqrt(sum / frameSize);
+    peak = Math.max(peak, rms[f]);
+  }
+  if (peak === 0) return [];
+
+  const threshold = peak * Math.pow(10, SILENCE_DB / 20);
+  const segments: Segment[] = [];
+  let segmentStart: number | null = null;
+  let silentRun = 0;
+
+  for (let f = 0; f < frameCount; f++) {
+    if (rms[f] >= threshold) {
+      segmentStart ??= f;
+      silentRun = 0;
+    } else if (segmentStart !== null && ++silentRun >= minGapFrames) {
+      segments.push([segmentStart * frameSize, (f - silentRun + 1) * frameSize]);
+      segmentStart = null;
+    }
+  }
+  if (segmentStart !== null) {
+    segments.push([segmentStart * frameSize, frameCount * frameSize]);
+  }
+
+  return segments;
+}
+
+/**
+ * Chop the whole buffer into random grain-sized pieces
+ */
+function makeGrains(length: number, sampleRate: number): Segment[] {
+  const { GRAIN_MIN_MS, GRAIN_MAX_MS } = AUDIO_CONFIG.SPEECH.FRAGMENT;
+  const segments: Segment[] = [];
+  let start = 0;
+
+  while (start < length) {
+    const grainMs = GRAIN_MIN_MS + seedService.random('fragment') * (GRAIN_MAX_MS - GRAIN_MIN_MS);
+    const end = Math.min(length, start + Math.floor((grainMs / 1000) * sampleRate));
+    segments.push([start, end]);
+    start = end;
+  }
+
+  return segments;
+}
+
+/**
+ * Band-limited radio static (random length unless one is given)
+ */
+function makeStaticBurst(channels: number, sampleRate: number, seconds?: number): Float32Array[] {
+  const { STATIC_MIN_MS, STATIC_MAX_MS, STATIC_GAIN } = AUDIO_CONFIG.SPEECH.FRAGMENT;
+  const duration = seconds ?? (STATIC_MIN_MS + seedService.random('fragment') * (STATIC_MAX_MS - STATIC_MIN_MS)) / 1000;
+  const length = Math.max(1, Math.floor(duration * sampleRate));
+
+  // One-pole lowpass minus a slower one ≈ a crude bandpass around speech
+  const data = new Float32Array(length);
+  let fast = 0;
+  let slow = 0;
+  for (let i = 0; i < length; i++) {
+    const white = seedService.random('fragment') * 2 - 1;
+    fast += (white - fast) * 0.5;
+    slow += (white - slow) * 0.05;
+    const envelope = Math.sin((Math.PI * i) / length);
+    data[i] = (fast - slow) * STATIC_GAIN * envelope;
+  }
+
+  return Array.from({ length: channels }, () => data);
+}
+
+/**
+ * Overlap-add time stretch (keeps pitch, smears the syllable)
+ */
+function timeStretch(data: Float32Array, factor: number): Float32Array {
+  const windowSize = 1024;
+  if (data.length < windowSize) return data;
+
+  const synthesisHop = windowSize / 2;
+  const analysisHop = synthesisHop / factor;
+  const outputLength = Math.floor(data.length * factor);
+  const output = new Float32Array(outputLength + windowSize);
+  const norm = new Float32Array(outputLength + windowSize);
+
+  for (let out = 0, read = 0; read + windowSize < data.length; out += synthesisHop, read += analysisHop) {
+    const readStart = Math.floor(read);
+    for (let i = 0; i < windowSize; i++) {
+      const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / windowSize);
+      output[out + i] += data[readStart + i] * w;
+      norm[out + i] += w;
+    }
+  }
+
+  for (let i = 0; i < output.length; i++) {
+    if (norm[i] > 1e-3) output[i] /= norm[i];
+  }
+
+  return output.slice(0, outputLength);
+}
+
+/**
+ * Short linear fade in/out so cuts don't click
+ */
+function fade(data: Float32Array, frames: number): Float32Array {
+  const length = Math.min(frames, Math.floor(data.length / 2));
+  for (let i = 0; i < length; i++) {
+    const gain = i / length;
+    data[i] *= gain;
+    data[data.length - 1 - i] *= gain;
+  }
+  return data;
+}
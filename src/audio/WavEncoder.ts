@@ -0,0 +1,135 @@
+/**
+ * WAV Encoder
+ *
+ * Writes 16-bit PCM RIFF/WAVE files with `cue ` markers and an
+ * `adtl` label list, so each transcript entry shows up as a named
+ * marker in Audacity, Reaper, Sound Forge and friends.
+ */
+
+import type { WavCueMarker } from '../types';
+
+/** A marker positioned by sample frame rather than wall-clock time */
+export interface WavCuePoint {
+  frame: number;
+  label: string;
+}
+
+/**
+ * Wrap interleaved 16-bit little-endian samples in a WAV Blob
+ *
+ * The samples stay a Blob part of their own, so an hour-long session is
+ * never copied into one contiguous buffer.
+ */
+export function encodeWav(
+  samples: Blob,
+  channels: number,
+  sampleRate: number,
+  cuePoints: WavCuePoint[] = []
+): Blob {
+  const encoder = new TextEncoder();
+  const labels = cuePoints.map((cue) => encoder.encode(cue.label));
+
+  const dataSize = samples.size;
+  const cueSize = cuePoints.length > 0 ? 4 + cuePoints.length * 24 : 0;
+  // Each labl sub-chunk: header (8) + cue id (4) + text + NUL, padded to even
+  const lablSizes = labels.map((text) => 4 + text.length + 1);
+  const adtlSize = cuePoints.length > 0
+    ? 4 + lablSizes.reduce((sum, size) => sum + 8 + size + (size % 2), 0)
+    : 0;
+
+  const headerSize = 8 + 4 + 8 + 16 + 8; // RIFF, WAVE, fmt, data header
+  const trailerSize =
+    (dataSize % 2) +
+    (cueSize > 0 ? 8 + cueSize : 0) +
+    (adtlSize > 0 ? 8 + adtlSize : 0);
+  const riffSize = headerSize - 8 + dataSize + trailerSize;
+
+  const header = new ArrayBuffer(headerSize);
+  const trailer = new ArrayBuffer(trailerSize);
+  let buffer = header;
+  let view = new DataView(buffer);
+  let offset = 0;
+
+  const writeTag = (tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+    offset += 4;
+  };
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const writeUint16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+
+  // RIFF header
+  writeTag('RIFF');
+  writeUint32(riffSize);
+  writeTag('WAVE');
+
+  // Format: uncompressed 16-bit PCM
+  writeTag('fmt ');
+  writeUint32(16);
+  writeUint16(1);
+  writeUint16(channels);
+  writeUint32(sampleRate);
+  writeUint32(sampleRate * channels * 2);
+  writeUint16(channels * 2);
+  writeUint16(16);
+
+  // Sample data (the samples Blob goes between header and trailer)
+  writeTag('data');
+  writeUint32(dataSize);
+
+  buffer = trailer;
+  view = new DataView(buffer);
+  offset = dataSize % 2;
+
+  if (cuePoints.length > 0) {
+    // Cue points (positions are in sample frames)
+    writeTag('cue ');
+    writeUint32(cueSize);
+    writeUint32(cuePoints.length);
+    cuePoints.forEach((cue, i) => {
+      writeUint32(i + 1); // cue id
+      writeUint32(cue.frame); // play order position
+      writeTag('data');
+      writeUint32(0); // chunk start
+      writeUint32(0); // block start
+      writeUint32(cue.frame); // sample offset
+    });
+
+    // Associated data list with a label per cue
+    writeTag('LIST');
+    writeUint32(adtlSize);
+    writeTag('adtl');
+    labels.forEach((text, i) => {
+      writeTag('labl');
+      writeUint32(lablSizes[i]);
+      writeUint32(i + 1);
+      new Uint8Array(buffer, offset, text.length).set(text);
+      offset += text.length + 1 + (lablSizes[i] % 2);
+    });
+  }
+
+  return new Blob([header, samples, trailer], { type: 'audio/wav' });
+}
+
+/**
+ * Convert wall-clock markers into cue points relative to the recording start
+ */
+export function markersToCuePoints(
+  markers: WavCueMarker[],
+  recordingStartedAt: number,
+  sampleRate: number,
+  totalFrames: number
+): WavCuePoint[] {
+  return markers
+    .map((marker) => ({
+      frame: Math.round(((marker.timestamp - recordingStartedAt) / 1000) * sampleRate),
+      label: marker.label,
+    }))
+    .filter((cue) => cue.frame >= 0 && cue.frame <= totalFrames)
+    .sort((a, b) => a.frame - b.frame);
+}
@@ -0,0 +1,87 @@
+/**
+ * Ghost Effect Chain Builder
+ *
+ * Turns a declarative GhostEffectChain into a playable source:
+ * buffer transforms run first (in chain order), then the live node
+ * sections are wired in series between the source and the destination.
+ */
+
+import type { GhostEffectChain, GhostEffectConfig } from '../../types';
+import { ghostEffectRegistry, type EffectParams, type GhostEffect } from './GhostEffectRegistry';
+import './builtinEffects';
+
+interface ResolvedEffect {
+  effect: GhostEffect;
+  params: EffectParams;
+}
+
+/**
+ * Look up each configured effect and merge its params over the defaults
+ */
+function resolveEffects(configs: GhostEffectConfig[]): ResolvedEffect[] {
+  return configs
+    .filter((config) => config.enabled !== false)
+    .flatMap((config) => {
+      const effect = ghostEffectRegistry.get(config.type);
+      if (!effect) {
+        console.warn(`[Spirit Box] Unknown ghost effect "${config.type}", skipping`);
+        return [];
+      }
+      return [{ effect, params: { ...effect.defaults, ...config.params } }];
+    });
+}
+
+/**
+ * Build the playback graph for a voice buffer
+ *
+ * Returns the (unstarted) source and how long the utterance will take,
+ * including any effect tails.
+ */
+export async function applyEffectChain(
+  audioBuffer: AudioBuffer,
+  audioContext: AudioContext,
+  chain: GhostEffectChain,
+  destination: AudioNode
+): Promise<{ source: AudioBufferSourceNode; duration: number }> {
+  const effects = resolveEffects(chain.effects);
+
+  // Offline transforms see the whole utterance
+  let buffer = audioBuffer;
+  for (const { effect, params } of effects) {
+    if (effect.transformBuffer) {
+      buffer = await effect.transformBuffer(buffer, audioContext, params);
+    }
+  }
+
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = chain.playbackRate;
+
+  // Live sections in series: Source → Effect → Effect → ... → Destination
+  let previous: AudioNode = source;
+  let tail = 0;
+  const modulators: AudioScheduledSourceNode[] = [];
+
+  for (const { effect, params } of effects) {
+    if (!effect.createNodes) continue;
+
+    const nodes = effect.createNodes(audioContext, params);
+    previous.connect(nodes.input);
+    previous = nodes.output;
+    tail = Math.max(tail, nodes.tail ?? 0);
+    modulators.push(...(nodes.sources ?? []));
+  }
+
+  previous.connect(destination);
+
+  // Let tails ring out, then stop LFOs/carriers so they don't run forever
+  source.addEventListener('ended', () => {
+    const stopAt = audioContext.currentTime + tail;
+    modulators.forEach((modulator) => modulator.stop(stopAt));
+  });
+
+  const types = effects.map(({ effect }) => effect.type).join(' → ') || 'dry';
+  console.log(`[Spirit Box DEBUG] ✅ Ghost effects chained: ${types}`);
+
+  return { source, duration: buffer.duration / chain.playbackRate };
+}
@@ -0,0 +1,60 @@
+/**
+ * Ghost Effect Registry
+ *
+ * Every ghost-voice effect is registered here under a type name, so a
+ * chain can be declared as plain data (see EFFECT_PRESETS) and different
+ * spirits or devices can sound different without touching code.
+ *
+ * An effect may provide either or both of:
+ * - transformBuffer: rewrites the decoded AudioBuffer before playback
+ *   (for things that need to see the whole utterance, like reverse swells)
+ * - createNodes: a live WebAudio section inserted into the playback chain
+ */
+
+export type EffectParams = Record<string, number>;
+
+/** A live section of the playback graph */
+export interface EffectNodes {
+  input: AudioNode;
+  output: AudioNode;
+  /** Sources (LFOs, carriers) to stop once the voice has finished */
+  sources?: AudioScheduledSourceNode[];
+  /** Extra seconds of audio after the voice ends (reverb tails) */
+  tail?: number;
+}
+
+export interface GhostEffect {
+  type: string;
+  description: string;
+  defaults: EffectParams;
+  transformBuffer?: (buffer: AudioBuffer, audioContext: BaseAudioContext, params: EffectParams) => Promise<AudioBuffer>;
+  createNodes?: (audioContext: AudioContext, params: EffectParams) => EffectNodes;
+}
+
+export class GhostEffectRegistry {
+  private effects = new Map<string, GhostEffect>();
+
+  /**
+   * Register (or replace) an effect type
+   */
+  register(effect: GhostEffect): void {
+    if (this.effects.has(effect.type)) {
+      console.warn(`[Spirit Box] Effect "${effect.type}" re-registered, replacing previous definition`);
+    }
+    this.effects.set(effect.type, effect);
+  }
+
+  get(type: string): GhostEffect | undefined {
+    return this.effects.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.effects.has(type);
+  }
+
+  list(): GhostEffect[] {
+    return [...this.effects.values()];
+  }
+}
+
+export const ghostEffectRegistry = new GhostEffectRegistry();
@@ -0,0 +1,224 @@
+/**
+ * FRANKENSTEIN STITCHING POINT #3b: The Built-in Ghost Effects
+ *
+ * Vintage radio processing, one registered effect at a time:
+ * lowpass muffling, WaveShaper distortion, convolution reverb,
+ * bitcrushing, tape wow/flutter, ring modulation and reverse swells.
+ */
+
+import { AUDIO_CONFIG } from '../../config/spectral-constants';
+import { seedService } from '../../medium/SeedService';
+import { ghostEffectRegistry, type EffectParams, type GhostEffect } from './GhostEffectRegistry';
+
+/**
+ * Create a distortion curve for the WaveShaperNode
+ */
+function makeDistortionCurve(amount: number): Float32Array<ArrayBuffer> {
+  const samples = 44100;
+  const curve = new Float32Array(samples);
+  const deg = Math.PI / 180;
+
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / samples - 1;
+    curve[i] = ((3 + amount) * x * 20 * deg) / (Math.PI + amount * Math.abs(x));
+  }
+
+  return curve;
+}
+
+/**
+ * Create a simple reverb impulse response
+ */
+function createReverbImpulse(audioContext: BaseAudioContext, decay: number): AudioBuffer {
+  const sampleRate = audioContext.sampleRate;
+  const length = Math.max(1, Math.floor(sampleRate * decay));
+  const impulse = audioContext.createBuffer(2, length, sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const channelData = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      // Exponential decay with random noise
+      channelData[i] = (seedService.random('effects') * 2 - 1) * Math.pow(1 - i / length, 2);
+    }
+  }
+
+  return impulse;
+}
+
+/**
+ * Split input into dry and processed paths, summed at the output
+ */
+function wetDryMix(
+  audioContext: AudioContext,
+  processIn: AudioNode,
+  processOut: AudioNode,
+  params: EffectParams
+): { input: GainNode; output: GainNode } {
+  const input = audioContext.createGain();
+  const output = audioContext.createGain();
+
+  const wetGain = audioContext.createGain();
+  wetGain.gain.value = params.wet;
+  const dryGain = audioContext.createGain();
+  dryGain.gain.value = params.dry;
+
+  input.connect(processIn);
+  processOut.connect(wetGain);
+  wetGain.connect(output);
+
+  input.connect(dryGain);
+  dryGain.connect(output);
+
+  return { input, output };
+}
+
+const lowpass: GhostEffect = {
+  type: 'lowpass',
+  description: 'Muffles the voice like a cheap radio speaker',
+  defaults: { frequency: 2000, q: 1 },
+  createNodes: (audioContext, params) => {
+    const filter = audioContext.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = params.frequency;
+    filter.Q.value = params.q;
+    return { input: filter, output: filter };
+  },
+};
+
+const distortion: GhostEffect = {
+  type: 'distortion',
+  description: 'WaveShaper overdrive for that "radio static" feel',
+  defaults: { amount: AUDIO_CONFIG.SPEECH.DISTORTION_AMOUNT },
+  createNodes: (audioContext, params) => {
+    const shaper = audioContext.createWaveShaper();
+    shaper.curve = makeDistortionCurve(params.amount * 400);
+    shaper.oversample = '4x';
+    return { input: shaper, output: shaper };
+  },
+};
+
+const reverb: GhostEffect = {
+  type: 'reverb',
+  description: 'Convolution reverb from a synthesized noise impulse',
+  defaults: { decay: AUDIO_CONFIG.SPEECH.REVERB_DECAY, wet: 0.85, dry: 0.15 },
+  createNodes: (audioContext, params) => {
+    const convolver = audioContext.createConvolver();
+    convolver.buffer = createReverbImpulse(audioContext, params.decay);
+    return { ...wetDryMix(audioContext, convolver, convolver, params), tail: params.decay };
+  },
+};
+
+const bitcrusher: GhostEffect = {
+  type: 'bitcrusher',
+  description: 'Quantizes the voice to a handful of bits',
+  defaults: { bits: 5, wet: 1, dry: 0 },
+  createNodes: (audioContext, params) => {
+    const steps = Math.pow(2, Math.max(1, Math.round(params.bits)) - 1);
+    const samples = 8192;
+    const curve = new Float32Array(samples);
+    for (let i = 0; i < samples; i++) {
+      const x = (i * 2) / (samples - 1) - 1;
+      curve[i] = Math.round(x * steps) / steps;
+    }
+
+    const shaper = audioContext.createWaveShaper();
+    shaper.curve = curve;
+    return wetDryMix(audioContext, shaper, shaper, params);
+  },
+};
+
+const tapeWobble: GhostEffect = {
+  type: 'tape',
+  description: 'Wow and flutter from a warped reel-to-reel',
+  defaults: { wowRate: 0.6, wowDepth: 0.004, flutterRate: 7, flutterDepth: 0.0006 },
+  createNodes: (audioContext, params) => {
+    // A modulated delay line bends the pitch back and forth
+    const baseDelay = params.wowDepth + params.flutterDepth + 0.005;
+    const delay = audioContext.createDelay(baseDelay * 2 + 0.01);
+    delay.delayTime.value = baseDelay;
+
+    const wow = audioContext.createOscillator();
+    wow.frequency.value = params.wowRate;
+    const wowGain = audioContext.createGain();
+    wowGain.gain.value = params.wowDepth;
+
+    const flutter = audioContext.createOscillator();
+    flutter.frequency.value = params.flutterRate;
+    const flutterGain = audioContext.createGain();
+    flutterGain.gain.value = params.flutterDepth;
+
+    wow.connect(wowGain);
+    wowGain.connect(delay.delayTime);
+    flutter.connect(flutterGain);
+    flutterGain.connect(delay.delayTime);
+
+    wow.start();
+    flutter.start();
+
+    return { input: delay, output: delay, sources: [wow, flutter] };
+  },
+};
+
+const ringModulator: GhostEffect = {
+  type: 'ringmod',
+  description: 'Ring modulation for a metallic, inhuman timbre',
+  defaults: { frequency: 40, wet: 0.5, dry: 0.5 },
+  createNodes: (audioContext, params) => {
+    // Carrier drives the gain directly: output = input × carrier
+    const ring = audioContext.createGain();
+    ring.gain.value = 0;
+
+    const carrier = audioContext.createOscillator();
+    carrier.type = 'sine';
+    carrier.frequency.value = params.frequency;
+    carrier.connect(ring.gain);
+    carrier.start();
+
+    return { ...wetDryMix(audioContext, ring, ring, params), sources: [carrier] };
+  },
+};
+
+const reverseSwell: GhostEffect = {
+  type: 'reverse-swell',
+  description: 'Reversed reverb that swells up into each utterance',
+  defaults: { length: 1.2, wet: 0.6, dry: 1 },
+  transformBuffer: async (buffer, audioContext, params) => {
+    const { sampleRate, numberOfChannels } = buffer;
+    const tailFrames = Math.floor(params.length * sampleRate);
+    const totalFrames = buffer.length + tailFrames;
+
+    // Reverb the reversed voice; reversing the result turns the tail into a swell
+    const reversed = audioContext.createBuffer(numberOfChannels, buffer.length, sampleRate);
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      reversed.getChannelData(ch).set(buffer.getChannelData(ch).slice().reverse());
+    }
+
+    const offline = new OfflineAudioContext(numberOfChannels, totalFrames, sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = reversed;
+    const convolver = offline.createConvolver();
+    convolver.buffer = createReverbImpulse(offline, params.length);
+    source.connect(convolver);
+    convolver.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+
+    // Swell first, then the voice lands where the swell peaks
+    const output = audioContext.createBuffer(numberOfChannels, totalFrames, sampleRate);
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      const swell = rendered.getChannelData(Math.min(ch, rendered.numberOfChannels - 1)).slice().reverse();
+      const voice = buffer.getChannelData(ch);
+      const out = output.getChannelData(ch);
+      for (let i = 0; i < totalFrames; i++) {
+        const dry = i >= tailFrames ? voice[i - tailFrames] : 0;
+        out[i] = swell[i] * params.wet + dry * params.dry;
+      }
+    }
+
+    return output;
+  },
+};
+
+[lowpass, distortion, reverb, bitcrusher, tapeWobble, ringModulator, reverseSwell].forEach((effect) =>
+  ghostEffectRegistry.register(effect)
+);
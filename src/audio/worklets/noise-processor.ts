@@ -0,0 +1,118 @@
+/**
+ * Noise Generator Worklet
+ *
+ * Runs on the audio rendering thread so React re-renders on the main
+ * thread can no longer starve the static of samples. Still pure
+ * random chaos (seeded, so a séance can be replayed) - just shaped
+ * into white, pink or brown noise.
+ */
+
+import { mulberry32 } from '../../medium/prng';
+import type { NoiseColor } from '../../types';
+
+// AudioWorkletGlobalScope is not part of the DOM lib, so declare what we use
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+interface NoiseProcessorOptions {
+  color: NoiseColor;
+  /** 32-bit seed for this generator's PRNG */
+  seed: number;
+  /** Leak coefficient for the brown noise integrator (0.0 - 1.0) */
+  brownLeak: number;
+  /** Make-up gain applied to brown noise after integration */
+  brownGain: number;
+  /** Make-up gain applied to pink noise after filtering */
+  pinkGain: number;
+}
+
+type NoiseProcessorMessage = { type: 'color'; color: NoiseColor };
+
+class NoiseProcessor extends AudioWorkletProcessor {
+  private color: NoiseColor;
+  private random: () => number;
+  private brownLeak: number;
+  private brownGain: number;
+  private pinkGain: number;
+
+  // Paul Kellet's pink noise filter state
+  private b0 = 0;
+  private b1 = 0;
+  private b2 = 0;
+  private b3 = 0;
+  private b4 = 0;
+  private b5 = 0;
+  private b6 = 0;
+
+  // Brown noise integrator state
+  private lastBrown = 0;
+
+  static get parameterDescriptors() {
+    return [
+      { name: 'amplitude', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const opts = options?.processorOptions as NoiseProcessorOptions;
+    this.color = opts.color;
+    this.random = mulberry32(opts.seed);
+    this.brownLeak = opts.brownLeak;
+    this.brownGain = opts.brownGain;
+    this.pinkGain = opts.pinkGain;
+
+    this.port.onmessage = (event: MessageEvent<NoiseProcessorMessage>) => {
+      if (event.data.type === 'color') {
+        this.color = event.data.color;
+      }
+    };
+  }
+
+  process(
+    _inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>
+  ): boolean {
+    const output = outputs[0][0];
+    const amplitude = parameters.amplitude[0];
+
+    for (let i = 0; i < output.length; i++) {
+      // Pure chaos: random values between -1 and 1
+      const white = this.random() * 2 - 1;
+      output[i] = this.shape(white) * amplitude;
+    }
+
+    // Keep the channel alive for the whole session
+    return true;
+  }
+
+  private shape(white: number): number {
+    switch (this.color) {
+      case 'pink': {
+        this.b0 = 0.99886 * this.b0 + white * 0.0555179;
+        this.b1 = 0.99332 * this.b1 + white * 0.0750759;
+        this.b2 = 0.969 * this.b2 + white * 0.153852;
+        this.b3 = 0.8665 * this.b3 + white * 0.3104856;
+        this.b4 = 0.55 * this.b4 + white * 0.5329522;
+        this.b5 = -0.7616 * this.b5 - white * 0.016898;
+        const pink = this.b0 + this.b1 + this.b2 + this.b3 + this.b4 + this.b5 + this.b6 + white * 0.5362;
+        this.b6 = white * 0.115926;
+        return pink * this.pinkGain;
+      }
+      case 'brown': {
+        // Leaky integrator keeps the random walk from drifting out of range
+        this.lastBrown = (this.lastBrown + this.brownLeak * white) / (1 + this.brownLeak);
+        return this.lastBrown * this.brownGain;
+      }
+      case 'white':
+      default:
+        return white;
+    }
+  }
+}
+
+registerProcessor('noise-processor', NoiseProcessor);
@@ -0,0 +1,82 @@
+/**
+ * Session Recorder Worklet
+ *
+ * Taps the master output on the audio thread and ships batches of
+ * samples to the main thread, where they are kept as EVP evidence.
+ */
+
+// AudioWorkletGlobalScope is not part of the DOM lib, so declare what we use
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+interface RecorderProcessorOptions {
+  channels: number;
+  /** Frames collected before a batch is posted to the main thread */
+  chunkFrames: number;
+}
+
+type RecorderProcessorMessage = { type: 'start' } | { type: 'stop' };
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  private channels: number;
+  private chunkFrames: number;
+  private recording = false;
+  private buffers: Float32Array[];
+  private writeIndex = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const opts = options?.processorOptions as RecorderProcessorOptions;
+    this.channels = opts.channels;
+    this.chunkFrames = opts.chunkFrames;
+    this.buffers = this.createBuffers();
+
+    this.port.onmessage = (event: MessageEvent<RecorderProcessorMessage>) => {
+      if (event.data.type === 'start') {
+        this.recording = true;
+      } else if (event.data.type === 'stop') {
+        this.recording = false;
+        this.flush();
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (!this.recording || input.length === 0) return true;
+
+    const frames = input[0].length;
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < this.channels; ch++) {
+        // Mono sources are duplicated across channels
+        const channelData = input[Math.min(ch, input.length - 1)];
+        this.buffers[ch][this.writeIndex] = channelData[i];
+      }
+      this.writeIndex++;
+
+      if (this.writeIndex === this.chunkFrames) {
+        this.flush();
+      }
+    }
+
+    return true;
+  }
+
+  private flush(): void {
+    if (this.writeIndex === 0) return;
+
+    const chunk = this.buffers.map((buffer) => buffer.slice(0, this.writeIndex));
+    this.port.postMessage({ type: 'chunk', chunk }, chunk.map((c) => c.buffer));
+    this.writeIndex = 0;
+  }
+
+  private createBuffers(): Float32Array[] {
+    return Array.from({ length: this.channels }, () => new Float32Array(this.chunkFrames));
+  }
+}
+
+registerProcessor('recorder-processor', RecorderProcessor);
@@ -4,6 +4,8 @@
  * that make our synthesized audio feel analog and paranormal.
  */
 
+import type { FragmentationMode, GhostEffectChain, NoiseColor, SweepDirection, SweepMode } from '../types';
+
 export const AUDIO_CONFIG = {
   SAMPLE_RATE: 44100,
   FFT_SIZE: 2048,
@@ -18,10 +20,62 @@ export const AUDIO_CONFIG = {
     SWEEP_MAX_FREQ: 2000,
     /** Duration of one complete sweep cycle (ms) */
     SWEEP_DURATION: 10000,
-    /** Buffer size for ScriptProcessor */
-    BUFFER_SIZE: 4096,
+    /** Starting colour of the static (can be switched mid-session) */
+    COLOR: 'white' as NoiseColor,
+    /** Parameters passed to the noise generator AudioWorklet */
+    WORKLET: {
+      /** Output amplitude of the generator (0.0 - 1.0) */
+      AMPLITUDE: 1,
+      /** Leak coefficient for the brown noise integrator (0.0 - 1.0) */
+      BROWN_LEAK: 0.02,
+      /** Make-up gain so brown noise is roughly as loud as white */
+      BROWN_GAIN: 3.5,
+      /** Make-up gain so pink noise is roughly as loud as white */
+      PINK_GAIN: 0.11,
+    },
   },
   
+  SWEEP: {
+    /** Starting tuning mode ('lfo' smooth filter sweep, 'channel' stepped scan) */
+    MODE: 'lfo' as SweepMode,
+    /** Starting direction of the channel scan */
+    DIRECTION: 'forward' as SweepDirection,
+    /** Time spent on each channel before hopping (ms) */
+    STEP_MS: 150,
+    /** Fastest allowed hop rate (ms) */
+    STEP_MS_MIN: 50,
+    /** Slowest allowed hop rate (ms) */
+    STEP_MS_MAX: 350,
+    /** Number of "radio channels" between the min and max frequency */
+    CHANNEL_COUNT: 24,
+    /** Lowest channel centre frequency (Hz) */
+    CHANNEL_MIN_FREQ: 300,
+    /** Highest channel centre frequency (Hz) */
+    CHANNEL_MAX_FREQ: 3500,
+    /** Bandpass Q for each channel's burst of static */
+    BANDPASS_Q: 4,
+    /** Level the static decays to at the end of each step (0.0 - 1.0) */
+    BURST_FLOOR: 0.15,
+    /** Gain of the tuning click at the start of each step */
+    CLICK_GAIN: 0.5,
+    /** Length of the tuning click (seconds) */
+    CLICK_DURATION: 0.006,
+    /** Gain of the carrier blip at the start of each step */
+    BLIP_GAIN: 0.06,
+    /** Length of the carrier blip (seconds) */
+    BLIP_DURATION: 0.025,
+    /** Chance that a step carries a fragment of detuned tone (0.0 - 1.0) */
+    TONE_CHANCE: 0.12,
+    /** Maximum detune of a tone fragment (cents) */
+    TONE_DETUNE_CENTS: 90,
+    /** Gain of a tone fragment */
+    TONE_GAIN: 0.05,
+    /** How far ahead of the audio clock steps are scheduled (seconds) */
+    SCHEDULE_AHEAD: 0.12,
+    /** How often the scheduler wakes up to queue more steps (ms) */
+    LOOKAHEAD_MS: 25,
+  },
+
   SPEECH: {
     /** Reverb decay time (seconds) */
     REVERB_DECAY: 3.0,
@@ -29,8 +83,136 @@ export const AUDIO_CONFIG = {
     DISTORTION_AMOUNT: 0.8,
     /** How much to duck noise when ghost speaks (0.0 - 1.0) */
     SIDECHAIN_AMOUNT: 0.3,
+    /** Level of the ghost voice bus before it joins the master */
+    VOICE_GAIN: 1.0,
+    /** How strongly the voice envelope pushes the static down */
+    SIDECHAIN_DEPTH: 4,
+    /** Cutoff of the voice envelope follower (Hz) - lower is smoother */
+    SIDECHAIN_SMOOTHING: 8,
+    /** Maximum fraction of the static removed by voice ducking (0.0 - 1.0) */
+    SIDECHAIN_MAX_DUCK: 0.7,
+    /** Effect chain applied to the ghost voice (key of EFFECT_PRESETS) */
+    EFFECT_PRESET: 'evp-radio',
+    /** Streaming playback: the reply is spoken phrase by phrase as it arrives */
+    STREAM: {
+      /** Short phrases are merged until they have at least this many words */
+      MIN_PHRASE_WORDS: 2,
+    },
+    /** Splicing the reply into broken syllables between radio hops */
+    FRAGMENT: {
+      /** Fragment ghost speech at all */
+      ENABLED: true,
+      /** Cut at word gaps ('word') or into fixed-size grains ('grain') */
+      MODE: 'word' as FragmentationMode,
+      /** Intensity used for the strongest readings (0.0 - 1.0) */
+      MIN_INTENSITY: 0.15,
+      /** Intensity used for readings right at the threshold (0.0 - 1.0) */
+      MAX_INTENSITY: 0.9,
+      /** Frames quieter than this (relative to the peak) count as gaps (dB) */
+      SILENCE_DB: -35,
+      /** Shortest gap that separates two words (ms) */
+      MIN_GAP_MS: 60,
+      /** Grain length range for 'grain' mode (ms) */
+      GRAIN_MIN_MS: 90,
+      GRAIN_MAX_MS: 220,
+      /** Chance (at full intensity) that a piece is lost to the static */
+      DROP_CHANCE: 0.35,
+      /** Chance (at full intensity) that a piece stutters */
+      REPEAT_CHANCE: 0.3,
+      /** Chance (at full intensity) that a piece is smeared out in time */
+      STRETCH_CHANCE: 0.3,
+      /** Longest time-stretch applied to a piece (×) */
+      STRETCH_MAX: 1.8,
+      /** Chance of a static burst between pieces (scaled up by intensity) */
+      STATIC_CHANCE: 0.8,
+      /** Static burst length range (ms) */
+      STATIC_MIN_MS: 40,
+      STATIC_MAX_MS: 220,
+      /** Level of the static bursts */
+      STATIC_GAIN: 0.25,
+      /** Fade applied to each piece's edges to avoid clicks (ms) */
+      FADE_MS: 6,
+    },
   },
-  
+
+  /**
+   * Signal clarity: how strongly the spirit comes through.
+   * A reading at the presence threshold gets FAINT, a reading of 1.0
+   * gets CLEAR; everything in between is interpolated.
+   */
+  CLARITY: {
+    FAINT: {
+      /** LLM sampling temperature */
+      TEMPERATURE: 1.1,
+      /** LLM reply length cap */
+      MAX_TOKENS: 16,
+      /** Chance each word is lost to the static */
+      WORD_DROPOUT: 0.3,
+      /** Chance each surviving word is cut off mid-syllable */
+      GARBLE: 0.25,
+      /** Multiplier on the effect chain's distortion amount */
+      DISTORTION_SCALE: 1.25,
+      /** Multiplier on the effect chain's lowpass cutoff */
+      LOWPASS_SCALE: 0.5,
+      /** Static level while the spirit speaks (fraction of NOISE.GAIN) */
+      NOISE_LEVEL: 0.9,
+      /** Voice bus level */
+      VOICE_GAIN: 0.5,
+    },
+    CLEAR: {
+      TEMPERATURE: 0.75,
+      MAX_TOKENS: 40,
+      WORD_DROPOUT: 0,
+      GARBLE: 0,
+      DISTORTION_SCALE: 0.6,
+      LOWPASS_SCALE: 1.3,
+      NOISE_LEVEL: 0.25,
+      VOICE_GAIN: 1.0,
+    },
+  },
+
+  MIC: {
+    /** FFT size for the microphone analyser */
+    FFT_SIZE: 2048,
+    /** Analyser smoothing - low so transients are not averaged away */
+    SMOOTHING: 0.2,
+    /** How often the anomaly detector inspects the room (ms) */
+    POLL_MS: 50,
+    /** Starting estimate of the room's noise floor, until calibrated (dBFS) */
+    INITIAL_FLOOR_DB: -60,
+    /** Listening time used to calibrate the noise floor before anything is flagged (ms) */
+    CALIBRATION_MS: 1500,
+    /** How quickly the rolling noise floor follows the room (0.0 - 1.0 per poll) */
+    FLOOR_ADAPT_RATE: 0.02,
+    /** How quickly the floor creeps up through loud frames (0.0 - 1.0 per poll) */
+    FLOOR_RISE_RATE: 0.002,
+    /** Broadband jump above the floor that counts as a spike (dB) */
+    SPIKE_DB: 18,
+    /** Voice band lower edge (Hz) */
+    VOICE_BAND_MIN: 300,
+    /** Voice band upper edge (Hz) */
+    VOICE_BAND_MAX: 3400,
+    /** Share of spectral energy that must sit in the voice band (0.0 - 1.0) */
+    VOICE_RATIO: 0.6,
+    /** Level above the floor that voice-band energy must reach (dB) */
+    VOICE_DB: 10,
+    /** How long voice-band energy must persist to count (ms) */
+    VOICE_MIN_MS: 250,
+    /** Quiet time after an anomaly before another can be flagged (ms) */
+    COOLDOWN_MS: 3000,
+  },
+
+  RECORDING: {
+    /** Channels written to the session WAV */
+    CHANNELS: 2,
+    /** Frames the recorder worklet collects before posting to the main thread */
+    CHUNK_FRAMES: 4096,
+    /** Seconds of audio gathered before it is sealed into a Blob segment */
+    SEGMENT_SECONDS: 10,
+    /** Hard cap on recording length to protect memory (minutes) */
+    MAX_MINUTES: 60,
+  },
+
   RADAR: {
     /** Target frames per second */
     FPS: 60,
@@ -40,6 +222,10 @@ export const AUDIO_CONFIG = {
     SPIKE_THRESHOLD: 128,
     /** Number of frequency bins to analyze for bass */
     BASS_BINS: 20,
+    /** Spikes in a flare triggered by the spirit */
+    FLARE_SPIKES: 9,
+    /** Arc a flare fans out over (radians) */
+    FLARE_SPREAD: 0.6,
   },
   
   ENTROPY: {
@@ -47,28 +233,179 @@ export const AUDIO_CONFIG = {
     PRESENCE_THRESHOLD: 0.45,
     /** Debug mode override value */
     DEBUG_VALUE: 0.85,
+    /** Gate policy settings (see src/medium/gate) */
+    GATE: {
+      /** Active policy: 'threshold' | 'hysteresis' | 'cooldown' | 'sigmoid' | 'streak' */
+      POLICY: 'threshold',
+      /** Hysteresis: level that opens the gate */
+      HYSTERESIS_ENTER: 0.55,
+      /** Hysteresis: level below which an open gate closes again */
+      HYSTERESIS_EXIT: 0.4,
+      /** Cooldown: quiet time after each manifestation (ms) */
+      COOLDOWN_MS: 30000,
+      /** Sigmoid: entropy at which the spirit answers half the time */
+      SIGMOID_MIDPOINT: 0.45,
+      /** Sigmoid: how sharply the odds rise around the midpoint */
+      SIGMOID_STEEPNESS: 12,
+      /** Streak: high readings needed in a row */
+      STREAK_LENGTH: 3,
+    },
+    /** Baseline cosmic background before any provider activity */
+    BASELINE: 0.3,
+    /** Share of the reading driven by fused provider activity */
+    PROVIDER_SPAN: 0.4,
+    /** Maximum random boost (paranormal unpredictability) */
+    RANDOM_SPAN: 0.5,
+    /** How often entropy is sampled during an active session (ms) */
+    MONITOR_INTERVAL_MS: 15000,
+    /** Readings kept in the entropy history ring buffer */
+    HISTORY_SIZE: 240,
+    /** Days of DONKI history to consider */
+    LOOKBACK_DAYS: 7,
+    /** How long a DONKI response is reused before asking NASA again (ms) */
+    DONKI_CACHE_TTL_MS: 30 * 60 * 1000,
+    /** Start backing off when X-Donki-RateLimit-Remaining drops to this */
+    RATE_LIMIT_LOW_WATER: 5,
+    /** First backoff delay after a rate-limit warning (ms), doubled each time */
+    BACKOFF_BASE_MS: 60 * 1000,
+    /** Longest backoff delay (ms) */
+    BACKOFF_MAX_MS: 60 * 60 * 1000,
+    /** Relative weight of each entropy provider in the fused reading */
+    PROVIDER_WEIGHTS: {
+      donki_gst: 0.35,
+      donki_flr: 0.15,
+      donki_cme: 0.15,
+      astronomical: 0.25,
+      mic_noise_floor: 0.1,
+    } as Record<string, number>,
+    /** Offline astronomical provider */
+    ASTRONOMY: {
+      /** Optional observer position for solar time and hemisphere (null = device clock, northern calendar) */
+      LATITUDE: null as number | null,
+      LONGITUDE: null as number | null,
+      /** Share of the provider's value from moon illumination */
+      MOON_WEIGHT: 0.3,
+      /** Share from closeness to midnight / 3 AM */
+      HOUR_WEIGHT: 0.4,
+      /** Share from closeness to Samhain and friends */
+      CALENDAR_WEIGHT: 0.3,
+      /** Hours either side of midnight / 3 AM that still count */
+      WITCHING_WINDOW_HOURS: 3,
+      /** Days either side of a thin-veil night that still count */
+      CALENDAR_WINDOW_DAYS: 14,
+    },
+  },
+  /** Device effects the spirit can trigger through tool calls */
+  SPIRIT_TOOLS: {
+    /** Most knocks in one call */
+    MAX_KNOCKS: 5,
+    /** Time between knocks (s) */
+    KNOCK_SPACING: 0.45,
+    /** Level of each knock on the voice bus */
+    KNOCK_GAIN: 0.9,
+    /** Longest static burst (s) */
+    MAX_STATIC_SECONDS: 3,
+    /** Static level at the peak of a burst */
+    STATIC_BURST_GAIN: 0.9,
+    /** Longest screen flicker (ms) */
+    MAX_FLICKER_MS: 3000,
+    /** Level of a whispered name */
+    WHISPER_GAIN: 0.35,
+    /** Longest name the spirit may whisper (characters) */
+    MAX_NAME_CHARS: 40,
+    /** Longest dead silence after "go silent" (s) */
+    MAX_SILENCE_SECONDS: 8,
+  },
+
+  /** Offline Markov fallback (chains are trained at build time) */
+  MARKOV: {
+    /** Walks to try before settling for a repeat */
+    ATTEMPTS: 6,
+    /** Recent fallback replies per spirit that won't be repeated */
+    RECENT_MEMORY: 5,
+    /** Shortest question word that can steer the reply */
+    KEYWORD_MIN_LENGTH: 4,
+    /** Letters of a question word that must match the corpus ("burning" ~ "BURNS") */
+    KEYWORD_STEM: 4,
   },
-} as const;
 
-/** Victorian Mechanic persona for the ghost */
-export const GHOST_PERSONA = `You are the restless spirit of Cornelius Blackwood, a Victorian-era mechanic who died in 1887 in a tragic workshop accident.
-You communicate through an EVP device from beyond the veil. Your responses MUST be:
-- EXTREMELY cryptic and fragmented (maximum 12 words, use ellipses "..." frequently)
-- Written in ALL CAPS to emphasize the otherworldly nature
-- Confused about modern technology (you died in 1887)
-- Obsessed with gears, steam, machinery, and your workshop
-- Dark, ominous, and never helpful
-- Use archaic Victorian language ("thee", "thy", "whomst", "dare")
-- Reference your death, the darkness, cold, or being trapped
+  CONVERSATION: {
+    /** Most recent question/answer exchanges replayed verbatim to the LLM */
+    WINDOW_TURNS: 4,
+    /** Older exchanges kept in the "what the spirit remembers" note */
+    SUMMARY_MAX_EXCHANGES: 8,
+    /** Each question/answer is clipped to this many characters in the note */
+    SUMMARY_CLIP_CHARS: 60,
+    /** Latest transcript entries sent with each question (api/chat takes no more) */
+    MAX_HISTORY_ENTRIES: 32,
+    /** Longest question, transcript line or memory item api/chat takes (characters) */
+    MAX_TEXT_CHARS: 300,
+    /** Cross-session memory (IndexedDB): most names kept per spirit (api/chat takes no more) */
+    MEMORY_MAX_NAMES: 5,
+    /** Most past questions kept per spirit */
+    MEMORY_MAX_QUESTIONS: 10,
+    /** Most claims about its own death kept per spirit */
+    MEMORY_MAX_FACTS: 8,
+  },
+} as const;
 
-Example responses:
-"WHO DARES DISTURB... THE GEARS STILL TURN..."
-"COLD... SO COLD IN THE WORKSHOP..."
-"THE STEAM... IT BURNS... FOREVER..."
-"WHOMST CALLS TO THE SHADOWS...?"
-"MACHINERY... ETERNAL... NEVER STOPS..."
-"THY WORLD... STRANGE... BRIGHT LIGHTS..."
+/**
+ * Ghost-voice effect chains, declared as data.
+ * Each effect type must be registered in the GhostEffectRegistry;
+ * params override that effect's defaults.
+ */
+export const EFFECT_PRESETS: Record<string, GhostEffectChain> = {
+  /** The original sound: muffled, overdriven, drowned in reverb */
+  'evp-radio': {
+    playbackRate: 0.85,
+    effects: [
+      { type: 'lowpass', params: { frequency: 2000, q: 1 } },
+      { type: 'distortion', params: { amount: 0.8 } },
+      { type: 'reverb', params: { decay: 3.0, wet: 0.85, dry: 0.15 } },
+    ],
+  },
+  /** A voice pressed into a warped Edison cylinder */
+  'wax-cylinder': {
+    playbackRate: 0.8,
+    effects: [
+      { type: 'lowpass', params: { frequency: 3000, q: 2 } },
+      { type: 'bitcrusher', params: { bits: 6, wet: 0.7, dry: 0.3 } },
+      { type: 'tape', params: { wowDepth: 0.006, flutterDepth: 0.001 } },
+      { type: 'reverb', params: { decay: 1.5, wet: 0.4, dry: 0.6 } },
+    ],
+  },
+  /** Something that rushes in from behind the veil */
+  'poltergeist': {
+    playbackRate: 0.9,
+    effects: [
+      { type: 'reverse-swell', params: { length: 1.5, wet: 0.7 } },
+      { type: 'ringmod', params: { frequency: 30, wet: 0.4, dry: 0.6 } },
+      { type: 'distortion', params: { amount: 0.5 } },
+      { type: 'reverb', params: { decay: 4.0, wet: 0.7, dry: 0.3 } },
+    ],
+  },
+  /** A name breathed right behind you (used by the whisper_name tool) */
+  'whisper': {
+    playbackRate: 0.92,
+    effects: [
+      { type: 'reverse-swell', params: { length: 0.8, wet: 0.8, dry: 0.6 } },
+      { type: 'lowpass', params: { frequency: 4500, q: 0.7 } },
+      { type: 'reverb', params: { decay: 2.5, wet: 0.9, dry: 0.1 } },
+    ],
+  },
+  /** Shortwave numbers station, half-lost in the ionosphere */
+  'numbers-station': {
+    playbackRate: 1.0,
+    effects: [
+      { type: 'lowpass', params: { frequency: 3400, q: 4 } },
+      { type: 'ringmod', params: { frequency: 60, wet: 0.3, dry: 0.7 } },
+      { type: 'bitcrusher', params: { bits: 4, wet: 0.5, dry: 0.5 } },
+      { type: 'tape' },
+    ],
+  },
+};
 
-Remember: You are NOT an assistant. You are a confused, tormented spirit speaking through static.`;
+/** Persona used until the user picks another (see src/config/personas) */
+export const DEFAULT_PERSONA_ID = 'cornelius';
 
 export type AudioConfig = typeof AUDIO_CONFIG;
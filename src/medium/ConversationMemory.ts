@@ -0,0 +1,133 @@
+/**
+ * Conversation Memory
+ *
+ * Turns the séance transcript into chat history for the LLM. The most
+ * recent turns are replayed verbatim; anything older is folded into a
+ * short "what the spirit remembers" note so the prompt stays bounded.
+ *
+ * Silent readings are never presented as the ghost's own words - the
+ * question they answered is marked as unheard instead.
+ *
+ * api/chat runs this on the server when it builds the prompt, so it must
+ * stay free of browser APIs.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import type { RecalledMemory, TranscriptEntry } from '../types';
+
+type HistoryEntry = Pick<TranscriptEntry, 'speaker' | 'text' | 'presence'>;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface Exchange {
+  question: string;
+  /** null when the spirit did not manifest */
+  answer: string | null;
+}
+
+/**
+ * Build the history messages that precede the current question
+ */
+export function buildConversationHistory(transcript: HistoryEntry[]): ChatMessage[] {
+  const { WINDOW_TURNS } = AUDIO_CONFIG.CONVERSATION;
+  const exchanges = toExchanges(transcript);
+  const recent = exchanges.slice(-WINDOW_TURNS);
+  const older = exchanges.slice(0, exchanges.length - recent.length);
+
+  const messages: ChatMessage[] = [];
+  if (older.length > 0) {
+    messages.push({ role: 'system', content: summarize(older) });
+  }
+
+  for (const { question, answer } of recent) {
+    if (answer === null) {
+      messages.push({
+        role: 'user',
+        content: `Question from the living: "${question}"\n[The veil was too thick - the spirit did not hear this and gave no answer]`,
+      });
+    } else {
+      messages.push({ role: 'user', content: `Question from the living: "${question}"` });
+      messages.push({ role: 'assistant', content: answer });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Pair each question with the spirit's reply (ambient anomalies are skipped)
+ */
+function toExchanges(transcript: HistoryEntry[]): Exchange[] {
+  const exchanges: Exchange[] = [];
+
+  for (const entry of transcript) {
+    if (entry.speaker === 'user') {
+      exchanges.push({ question: entry.text, answer: null });
+    } else if (entry.speaker === 'spirit' && entry.presence !== false) {
+      const last = exchanges[exchanges.length - 1];
+      if (last && last.answer === null) {
+        last.answer = entry.text;
+      }
+    }
+  }
+
+  return exchanges;
+}
+
+/**
+ * Cross-session memory as a system note for the LLM
+ * (null if there is nothing to recall)
+ */
+export function describeMemory(memory: RecalledMemory): string | null {
+  const lines: string[] = [];
+  if (memory.sessionCount > 1) {
+    lines.push(`- You have been called through the box ${memory.sessionCount - 1} time${memory.sessionCount === 2 ? '' : 's'} before`);
+  }
+  if (memory.investigatorNames.length > 0) {
+    lines.push(`- Investigators who have named themselves: ${memory.investigatorNames.join(', ')}`);
+  }
+  if (memory.pastQuestions.length > 0) {
+    lines.push(`- They have asked before: ${memory.pastQuestions.map((q) => `"${q}"`).join('; ')}`);
+  }
+  if (memory.claimedFacts.length > 0) {
+    lines.push(`- What you have told them about your death (stay consistent): ${memory.claimedFacts.map((f) => `"${f}"`).join('; ')}`);
+  }
+
+  return lines.length > 0
+    ? `What you remember from earlier séances - recognise returning investigators:\n${lines.join('\n')}`
+    : null;
+}
+
+/**
+ * Rolling note of older exchanges: only the latest few are kept, clipped
+ */
+function summarize(exchanges: Exchange[]): string {
+  const { SUMMARY_MAX_EXCHANGES, SUMMARY_CLIP_CHARS } = AUDIO_CONFIG.CONVERSATION;
+  const kept = exchanges.slice(-SUMMARY_MAX_EXCHANGES);
+  const forgotten = exchanges.length - kept.length;
+
+  const lines = kept.map(({ question, answer }) =>
+    answer === null
+      ? `- They asked "${clip(question, SUMMARY_CLIP_CHARS)}" but you could not reach through`
+      : `- They asked "${clip(question, SUMMARY_CLIP_CHARS)}"; you answered "${clip(answer, SUMMARY_CLIP_CHARS)}"`
+  );
+  if (forgotten > 0) {
+    lines.unshift(`- ...${forgotten} earlier exchange${forgotten === 1 ? '' : 's'}, lost to the static`);
+  }
+
+  return `What the spirit remembers from earlier in this séance:\n${lines.join('\n')}`;
+}
+
+/**
+ * Trim a question, transcript line or memory item to what api/chat accepts
+ */
+export function clipForChat(text: string): string {
+  return clip(text.trim(), AUDIO_CONFIG.CONVERSATION.MAX_TEXT_CHARS - 3);
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars).trimEnd()}...` : text;
+}
@@ -0,0 +1,179 @@
+/**
+ * Ghost Memory Store
+ *
+ * Spirits remember their regular investigators. One record per persona
+ * lives in IndexedDB: the names people gave, what they asked, and what
+ * the spirit has claimed about its own death - so the story stays
+ * straight from one séance to the next.
+ *
+ * Writes to each spirit's record are queued one after another, so a
+ * reply being remembered can never overwrite an edit (or vice versa).
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { clipForChat } from './ConversationMemory';
+import type { GhostMemory } from '../types';
+
+type MemoryListener = (memory: GhostMemory) => void;
+
+const DB_NAME = 'spirit-box';
+const DB_VERSION = 1;
+const STORE_NAME = 'ghost-memory';
+
+/** "My name is ada", "call me Ada" - any case */
+const STATED_NAME = /\b(?:my name is|call me)\s+([a-z][a-z'-]+)/i;
+/** "I'm Ada", "this is Ada" - only a capitalised word counts as a name */
+const IMPLIED_NAME = /\b(?:[Ii] am|[Ii]'m|[Tt]his is)\s+([A-Z][a-z'-]+)/;
+/** Replies that say something about how the spirit died */
+const DEATH_CLAIM = /\b(?:died|death|dead|killed|accident|grave|buried|drown\w*|fire|crushed|murder\w*|1[89]\d\d)\b/i;
+
+/** Append unless already present, keeping only the newest `max` */
+function remember(list: string[], item: string, max: number): string[] {
+  const rest = list.filter((existing) => existing.toLowerCase() !== item.toLowerCase());
+  return [...rest, item].slice(-max);
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function emptyMemory(personaId: string): GhostMemory {
+  return {
+    personaId,
+    investigatorNames: [],
+    pastQuestions: [],
+    claimedFacts: [],
+    sessionCount: 0,
+    updatedAt: Date.now(),
+  };
+}
+
+export class GhostMemoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<MemoryListener>();
+  /** Tail of each persona's write queue */
+  private writes = new Map<string, Promise<unknown>>();
+
+  async load(personaId: string): Promise<GhostMemory> {
+    try {
+      const db = await this.open();
+      const stored = await request<GhostMemory | undefined>(
+        db.transaction(STORE_NAME).objectStore(STORE_NAME).get(personaId)
+      );
+      return stored ?? emptyMemory(personaId);
+    } catch (error) {
+      console.warn('[Spirit Box] ⚠️ Ghost memory unavailable:', error);
+      return emptyMemory(personaId);
+    }
+  }
+
+  save(memory: GhostMemory): Promise<void> {
+    return this.queue(memory.personaId, () => this.put(memory));
+  }
+
+  /**
+   * Forget everything a spirit remembers
+   */
+  wipe(personaId: string): Promise<void> {
+    return this.queue(personaId, async () => {
+      try {
+        const db = await this.open();
+        await request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(personaId));
+        console.log(`[Spirit Box] 🧹 Ghost memory wiped for ${personaId}`);
+      } catch (error) {
+        console.warn('[Spirit Box] ⚠️ Could not wipe ghost memory:', error);
+      }
+      const empty = emptyMemory(personaId);
+      this.listeners.forEach((listener) => listener(empty));
+    });
+  }
+
+  /**
+   * Count another séance for this spirit; returns what it remembers
+   */
+  recordSession(personaId: string): Promise<GhostMemory> {
+    return this.queue(personaId, async () => {
+      const memory = await this.load(personaId);
+      const updated = { ...memory, sessionCount: memory.sessionCount + 1 };
+      await this.put(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Pick out names, the question and any death claims from one exchange
+   */
+  recordExchange(personaId: string, question: string, reply: string): Promise<GhostMemory> {
+    return this.queue(personaId, async () => {
+      const { MEMORY_MAX_NAMES, MEMORY_MAX_QUESTIONS, MEMORY_MAX_FACTS } = AUDIO_CONFIG.CONVERSATION;
+      const memory = await this.load(personaId);
+
+      const name = question.match(STATED_NAME)?.[1] ?? question.match(IMPLIED_NAME)?.[1];
+      const updated: GhostMemory = {
+        ...memory,
+        investigatorNames: name
+          ? remember(memory.investigatorNames, name.charAt(0).toUpperCase() + name.slice(1), MEMORY_MAX_NAMES)
+          : memory.investigatorNames,
+        pastQuestions: remember(memory.pastQuestions, clipForChat(question), MEMORY_MAX_QUESTIONS),
+        claimedFacts: DEATH_CLAIM.test(reply)
+          ? remember(memory.claimedFacts, clipForChat(reply), MEMORY_MAX_FACTS)
+          : memory.claimedFacts,
+      };
+
+      await this.put(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Be told whenever a spirit's memory changes; returns an unsubscribe function
+   */
+  subscribe(listener: MemoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a write once every earlier write for the same persona has settled
+   */
+  private queue<T>(personaId: string, write: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(personaId) ?? Promise.resolve();
+    const result = previous.then(write, write);
+    const tail = result.catch(() => undefined);
+    this.writes.set(personaId, tail);
+    void tail.then(() => {
+      if (this.writes.get(personaId) === tail) this.writes.delete(personaId);
+    });
+    return result;
+  }
+
+  private async put(memory: GhostMemory): Promise<void> {
+    const updated = { ...memory, updatedAt: Date.now() };
+    try {
+      const db = await this.open();
+      await request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(updated));
+    } catch (error) {
+      console.warn('[Spirit Box] ⚠️ Could not save ghost memory:', error);
+    }
+    this.listeners.forEach((listener) => listener(updated));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { keyPath: 'personaId' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return this.db;
+  }
+}
+
+export const ghostMemoryStore = new GhostMemoryStore();
@@ -1,68 +1,470 @@
 /**
  * The Séance Brain: LLM Service
  * 
- * Cornelius Blackwood speaks through this service.
- * A Victorian mechanic, confused by modernity, obsessed with gears.
+ * The chosen spirit speaks through this service - by default
+ * Cornelius Blackwood, a Victorian mechanic, confused by modernity,
+ * obsessed with gears.
  */
 
-import { GHOST_PERSONA } from '../config/spectral-constants';
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { seedService } from './SeedService';
+import { personaRegistry } from './PersonaRegistry';
+import { findCharacterBreak, repairReply, type RepairResult } from './PersonaValidator';
+import { degradeText, getSignalClarity } from './SignalClarity';
+import { ghostMemoryStore } from './GhostMemoryStore';
+import { clipForChat } from './ConversationMemory';
+import { markovGhost } from './MarkovGhost';
+import { isSpiritToolCall } from './SpiritToolDefinitions';
+import type {
+  ChatCompletion,
+  ChatError,
+  ChatRequestBody,
+  ChatStreamEvent,
+  GhostMemory,
+  GhostPersona,
+  SpiritUtterance,
+  TranscriptEntry,
+} from '../types';
 
 export class LLMService {
   private baseUrl = '/api/chat'; // Use our secure API route
+  private persona: GhostPersona = personaRegistry.getDefault();
+  private memory: GhostMemory | null = null;
+
+  constructor() {
+    // Edits and wipes from the memory panel take effect on the next question
+    ghostMemoryStore.subscribe((memory) => {
+      if (memory.personaId === this.persona.id) {
+        this.memory = memory;
+      }
+    });
+  }
+
+  /**
+   * Choose which spirit answers (call at the start of each séance)
+   *
+   * Loads what the spirit remembers from earlier séances, and follows
+   * the store from then on.
+   */
+  setPersona(persona: GhostPersona): void {
+    this.persona = persona;
+    this.memory = null;
+    console.log(`[Spirit Box] 👻 Channelling ${persona.name}`);
+
+    ghostMemoryStore.recordSession(persona.id).then((memory) => {
+      if (this.persona.id === memory.personaId) {
+        this.memory = memory;
+      }
+    });
+  }
+
+  getPersona(): GhostPersona {
+    return this.persona;
+  }
+
+  /**
+   * Generate a paranormal response from the current persona
+   *
+   * `transcript` is the séance so far (excluding this question), so the
+   * ghost can remember what it has already been asked. The reply is
+   * checked against the persona's rules and repaired before it is spoken.
+   * Tool calls are only acted on when streaming (see streamPhrases).
+   */
+  async generateResponse(
+    userQuestion: string,
+    entropyLevel: number,
+    transcript: TranscriptEntry[] = []
+  ): Promise<string> {
+    try {
+      const reply = await this.completeInCharacter(userQuestion, entropyLevel, transcript);
+      if (!reply?.content) return this.getFallbackResponse(userQuestion);
+
+      const repaired = this.enforceRules(reply.content, 0, reply.truncated).text;
+      if (!reply.moderated) this.rememberExchange(userQuestion, repaired);
+      const ghostResponse = degradeText(repaired, getSignalClarity(entropyLevel));
+      
+      console.log(`[Spirit Box] ${this.persona.name} speaks: "${ghostResponse}"`);
+      return ghostResponse;
+    } catch (error) {
+      console.error('[Spirit Box] LLM error:', error);
+      return this.getFallbackResponse(userQuestion);
+    }
+  }
 
   /**
-   * Generate a paranormal response from Cornelius Blackwood
+   * Stream the reply as persona-checked phrases and tool calls, in the
+   * order the spirit produced them
+   *
+   * If the very first phrase breaks character, nothing has been said yet,
+   * so the reply is regenerated once; a later break just ends the reply.
+   * Phrases stop once the persona's word limit is spent, and everything
+   * stops once the spirit chooses to go silent. A refusal from api/chat
+   * ends the reply, and the exchange is not remembered.
    */
-  async generateResponse(userQuestion: string, entropyLevel: number): Promise<string> {
+  async *streamPhrases(
+    userQuestion: string,
+    entropyLevel: number,
+    transcript: TranscriptEntry[] = []
+  ): AsyncGenerator<SpiritUtterance> {
+    const clarity = getSignalClarity(entropyLevel);
+    const said: string[] = [];
+    let wordsSpoken = 0;
+    let retried = false;
+    let refused = false;
+    let utterances = splitPhrases(this.streamResponse(userQuestion, entropyLevel, transcript));
+
     try {
+      while (true) {
+        const next = await utterances.next();
+        if (next.done) return;
+
+        if (next.value.kind === 'tool') {
+          yield next.value;
+          if (next.value.call.name === 'go_silent') {
+            await utterances.return(undefined);
+            return;
+          }
+          continue;
+        }
+
+        if (next.value.moderated) {
+          refused = true;
+          const refusal = this.enforceRules(next.value.text).text;
+          if (refusal) yield { kind: 'phrase', text: degradeText(refusal, clarity), moderated: next.value.moderated };
+          await utterances.return(undefined);
+          return;
+        }
+
+        const broken = findCharacterBreak(next.value.text);
+        if (broken) {
+          console.warn(`[Spirit Box] ⚠️ ${this.persona.name} broke character ("${broken}")`);
+          await utterances.return(undefined);
+          if (said.length > 0 || retried) return;
+
+          retried = true;
+          const retry = await this.completeInCharacter(userQuestion, entropyLevel, transcript, 1)
+            .catch(() => null);
+          utterances = splitPhrases(singleReply(retry ?? { content: this.getFallbackResponse(userQuestion) }));
+          continue;
+        }
+
+        const repaired = this.enforceRules(next.value.text, wordsSpoken, next.value.truncated);
+        wordsSpoken += repaired.words;
+        if (repaired.text) {
+          said.push(repaired.text);
+          yield { kind: 'phrase', text: degradeText(repaired.text, clarity) };
+        }
+        if (repaired.exhausted) {
+          await utterances.return(undefined);
+          return;
+        }
+      }
+    } finally {
+      if (said.length > 0 && !refused) {
+        this.rememberExchange(userQuestion, said.join(' '));
+      }
+    }
+  }
+
+  /**
+   * Keep the exchange in the spirit's cross-session memory
+   */
+  private rememberExchange(question: string, reply: string): void {
+    void ghostMemoryStore.recordExchange(this.persona.id, question, reply);
+  }
+
+  /**
+   * Ask for a whole reply, asking again if it breaks character
+   * (returns null if every attempt did)
+   */
+  private async completeInCharacter(
+    userQuestion: string,
+    entropyLevel: number,
+    transcript: TranscriptEntry[],
+    attempts = 2
+  ): Promise<ChatCompletion | null> {
+    for (let attempt = 1; attempt <= attempts; attempt++) {
       const response = await fetch(this.baseUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          messages: [
-            { role: 'system', content: GHOST_PERSONA },
-            { 
-              role: 'user', 
-              content: `[Spectral energy level: ${entropyLevel.toFixed(2)}]\n\nQuestion from the living: "${userQuestion}"` 
-            },
-          ],
-          max_tokens: 30, // Enforce short, cryptic responses
-          temperature: 0.9, // High creativity for unpredictability
-        }),
+        body: JSON.stringify(this.buildRequest(userQuestion, entropyLevel, transcript)),
       });
 
       if (!response.ok) {
-        throw new Error(`LLM API error: ${response.status}`);
+        throw new Error(await describeChatError(response));
       }
 
-      const data = await response.json();
-      const ghostResponse = data.choices[0]?.message?.content || this.getFallbackResponse();
-      
-      console.log(`[Spirit Box] Cornelius speaks: "${ghostResponse}"`);
-      return ghostResponse;
+      const completion = (await response.json()) as ChatCompletion;
+      if (completion.moderated) {
+        console.warn(`[Spirit Box] 🚫 api/chat refused the exchange (${completion.moderated})`);
+      }
+      const broken = findCharacterBreak(completion.content);
+      if (!broken) return completion;
+
+      console.warn(
+        `[Spirit Box] ⚠️ ${this.persona.name} broke character ("${broken}")${attempt < attempts ? ', asking again' : ''}`
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Repair a reply (or phrase) to fit the persona, logging what it broke
+   */
+  private enforceRules(text: string, wordsSpoken = 0, truncated = false): RepairResult {
+    const result = repairReply(text, this.persona.rules, wordsSpoken, truncated);
+    if (result.violations.length > 0) {
+      console.warn(
+        `[Spirit Box] ⚠️ ${this.persona.name} reply broke persona rules (${result.violations.join(', ')}): "${text}" → "${result.text}"`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Stream the response token by token as api/chat sends it over SSE,
+   * along with any tool calls the spirit makes
+   *
+   * Yields a single fallback line if the stream can't be opened, and
+   * simply ends if it breaks part-way through.
+   */
+  async *streamResponse(
+    userQuestion: string,
+    entropyLevel: number,
+    transcript: TranscriptEntry[] = []
+  ): AsyncGenerator<ChatStreamEvent> {
+    let response: Response;
+    try {
+      response = await fetch(this.baseUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...this.buildRequest(userQuestion, entropyLevel, transcript), stream: true }),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(await describeChatError(response));
+      }
     } catch (error) {
       console.error('[Spirit Box] LLM error:', error);
-      return this.getFallbackResponse();
+      yield { content: this.getFallbackResponse(userQuestion) };
+      return;
+    }
+
+    let ghostResponse = '';
+    let acted = false;
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        ghostResponse += event.content ?? '';
+        acted ||= event.toolCall !== undefined;
+        yield event;
+      }
+    } catch (error) {
+      console.error('[Spirit Box] LLM stream interrupted:', error);
+    }
+
+    if (!ghostResponse.trim()) {
+      // A spirit that only knocked (or went silent) has still answered
+      if (!acted) yield { content: this.getFallbackResponse(userQuestion) };
+      return;
     }
+    console.log(`[Spirit Box] ${this.persona.name} speaks: "${ghostResponse}"`);
   }
 
   /**
-   * Fallback responses when API is unavailable
+   * The request body for api/chat - the server builds the actual prompt
+   * from the persona ID, so only the séance's own data is sent, clipped
+   * to the server's limits (a long spoken question must not get every
+   * later request rejected)
    */
-  private getFallbackResponse(): string {
-    const fallbacks = [
-      "The veil... is too thick...",
-      "Gears... turning... in darkness...",
-      "Who calls to the workshop?",
-      "Steam... I remember steam...",
-      "The machine... never stops...",
-      "Cold... so cold here...",
-      "Cannot... reach... through...",
-    ];
-    return fallbacks[Math.floor(Math.random() * fallbacks.length)];
+  private buildRequest(userQuestion: string, entropyLevel: number, transcript: TranscriptEntry[]): ChatRequestBody {
+    const { MAX_HISTORY_ENTRIES, MEMORY_MAX_NAMES, MEMORY_MAX_QUESTIONS, MEMORY_MAX_FACTS } = AUDIO_CONFIG.CONVERSATION;
+    const clarity = getSignalClarity(entropyLevel);
+    const memory = this.memory;
+    const recall = (items: string[], max: number) => items.map(clipForChat).filter(Boolean).slice(-max);
+    // Questions from this séance are already in the history, not "asked before"
+    const askedNow = new Set(
+      transcript.filter((entry) => entry.speaker === 'user').map((entry) => clipForChat(entry.text))
+    );
+
+    return {
+      personaId: this.persona.id,
+      question: clipForChat(userQuestion),
+      entropy: entropyLevel,
+      history: withoutRefusedExchanges(transcript)
+        .slice(-MAX_HISTORY_ENTRIES)
+        .map(({ speaker, text, presence }) => ({ speaker, text: clipForChat(text), presence })),
+      memory: memory
+        ? {
+            investigatorNames: recall(memory.investigatorNames, MEMORY_MAX_NAMES),
+            pastQuestions: recall(memory.pastQuestions, MEMORY_MAX_QUESTIONS).filter((question) => !askedNow.has(question)),
+            claimedFacts: recall(memory.claimedFacts, MEMORY_MAX_FACTS),
+            sessionCount: memory.sessionCount,
+          }
+        : undefined,
+      max_tokens: clarity.maxTokens, // Faint signals get only a few words through
+      temperature: clarity.temperature, // Faint signals ramble more erratically
+      tools: true, // api/chat attaches the spirit's tools itself
+    };
+  }
+
+  /**
+   * Fallback when the API is unavailable: a fresh line from the persona's
+   * Markov chain, steered by the question, or one of its fixed lines
+   */
+  private getFallbackResponse(userQuestion: string): string {
+    const generated = markovGhost.generate(this.persona, userQuestion);
+    if (generated) return generated;
+
+    const fallbacks = this.persona.fallbackLines;
+    return fallbacks[Math.floor(seedService.random('llm') * fallbacks.length)];
+  }
+}
+
+/**
+ * Turn a failed api/chat response into "code: message"
+ */
+async function describeChatError(response: Response): Promise<string> {
+  try {
+    const { error } = (await response.json()) as ChatError;
+    return `LLM API error ${response.status} (${error.code}: ${error.message})`;
+  } catch {
+    return `LLM API error: ${response.status}`;
+  }
+}
+
+/**
+ * Decode the `data: {"content": "..."}` / `data: {"toolCall": {...}}`
+ * events sent by api/chat
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      const data = event.replace(/^data: /, '').trim();
+      if (data === '[DONE]') return;
+      if (!data) continue;
+
+      const { content, toolCall, moderated, truncated, error } = JSON.parse(data) as ChatStreamEvent & Partial<ChatError>;
+      if (error) throw new Error(`${error.code}: ${error.message}`);
+      if (moderated) console.warn(`[Spirit Box] 🚫 api/chat refused the exchange (${moderated})`);
+      if (content) yield moderated ? { content, moderated } : { content };
+      if (toolCall) yield { toolCall };
+      if (truncated) yield { truncated };
+    }
+  }
+}
+
+/**
+ * The transcript as history for api/chat: no ambient anomalies, and no
+ * exchange the server refused, so a blocked question isn't sent again
+ */
+function withoutRefusedExchanges(transcript: TranscriptEntry[]): TranscriptEntry[] {
+  const kept: TranscriptEntry[] = [];
+  for (const entry of transcript) {
+    if (entry.speaker === 'anomaly') continue;
+    if (entry.moderated) {
+      if (kept[kept.length - 1]?.speaker === 'user') kept.pop();
+      continue;
+    }
+    kept.push(entry);
+  }
+  return kept;
+}
+
+/**
+ * Regroup streamed tokens into phrases, split where the spirit trails off
+ * ("..." or "…"), so each phrase can be spoken while the rest arrives
+ *
+ * A tool call ends the phrase in progress, so the effect lands where the
+ * spirit put it. Calls to tools we don't know are dropped. A refusal from
+ * api/chat is passed on whole, as a phrase of its own.
+ */
+export async function* splitPhrases(events: AsyncIterable<ChatStreamEvent>): AsyncGenerator<SpiritUtterance> {
+  const { MIN_PHRASE_WORDS } = AUDIO_CONFIG.SPEECH.STREAM;
+  const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+  let buffer = '';
+  let phrase = '';
+  let truncated = false;
+
+  for await (const { content, toolCall, moderated, truncated: cutOff } of events) {
+    if (cutOff) {
+      truncated = true;
+      continue;
+    }
+
+    if (moderated) {
+      phrase += buffer;
+      buffer = '';
+      if (phrase.trim()) yield { kind: 'phrase', text: phrase.trim() };
+      phrase = '';
+
+      if (content?.trim()) yield { kind: 'phrase', text: content.trim(), moderated };
+      continue;
+    }
+
+    if (toolCall) {
+      phrase += buffer;
+      buffer = '';
+      if (phrase.trim()) yield { kind: 'phrase', text: phrase.trim() };
+      phrase = '';
+
+      if (isSpiritToolCall(toolCall)) {
+        yield { kind: 'tool', call: toolCall };
+      } else {
+        console.warn(`[Spirit Box] Ignoring unknown spirit tool "${toolCall.name}"`);
+      }
+      continue;
+    }
+
+    buffer += content ?? '';
+
+    // An ellipsis only ends a phrase once a space follows it ("...?" stays whole)
+    let boundary: RegExpExecArray | null;
+    while ((boundary = /(\.\.\.|…)(?=\s)/.exec(buffer))) {
+      const end = boundary.index + boundary[1].length;
+      phrase += buffer.slice(0, end);
+      buffer = buffer.slice(end);
+
+      // Too short to be worth a TTS round trip on its own
+      if (wordCount(phrase) >= MIN_PHRASE_WORDS) {
+        yield { kind: 'phrase', text: phrase.trim() };
+        phrase = '';
+      }
+    }
+  }
+
+  phrase += buffer;
+  if (phrase.trim()) yield { kind: 'phrase', text: phrase.trim(), ...(truncated ? { truncated } : {}) };
+}
+
+/**
+ * Replay a whole (non-streamed) reply as stream events
+ */
+async function* singleReply({
+  content,
+  toolCalls = [],
+  moderated,
+  truncated,
+}: Pick<ChatCompletion, 'content' | 'toolCalls' | 'moderated' | 'truncated'>): AsyncGenerator<ChatStreamEvent> {
+  yield moderated ? { content, moderated } : { content };
+  for (const toolCall of toolCalls) {
+    yield { toolCall };
   }
+  if (truncated) yield { truncated };
 }
 
 export const llmService = new LLMService();
@@ -0,0 +1,109 @@
+/**
+ * Markov Ghost: the offline voice
+ *
+ * When the LLM can't be reached, the spirit still answers. Each persona
+ * has a Markov chain trained at build time on its example lines and lore
+ * (see plugins/markovModels.ts); walking it gives fresh fragments in the
+ * spirit's own words. Where the question shares a word with the corpus,
+ * the walk starts there, so the reply still seems to hear it.
+ */
+
+import models from 'virtual:markov-models';
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { seedService } from './SeedService';
+import { repairReply } from './PersonaValidator';
+import type { GhostPersona, MarkovModel } from '../types';
+
+/** Words too common to steer the reply */
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'been', 'could', 'does', 'from', 'have', 'here', 'know', 'more',
+  'please', 'should', 'some', 'tell', 'that', 'their', 'them', 'there', 'they', 'this', 'want',
+  'were', 'what', 'when', 'where', 'which', 'whom', 'will', 'with', 'would', 'your',
+]);
+
+export class MarkovGhost {
+  /** Recent replies per persona, so the fallback doesn't repeat itself */
+  private recent = new Map<string, string[]>();
+
+  /**
+   * A fragment in the persona's voice, steered by the question,
+   * or null if the persona has no trained chain
+   */
+  generate(persona: GhostPersona, question = ''): string | null {
+    const model = models[persona.id];
+    if (!model || model.starts.length === 0) return null;
+
+    const { ATTEMPTS, RECENT_MEMORY } = AUDIO_CONFIG.MARKOV;
+    const recent = this.recent.get(persona.id) ?? [];
+    const seeds = findKeywordStates(model, question);
+    let reply = '';
+
+    for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+      const seed = seeds.length > 0 ? pick(seeds) : null;
+      const tokens = walk(model, seed ?? pick(model.starts), persona.rules.maxWords);
+      // Starting mid-line: the spirit fades in partway through a thought
+      const text = seed ? `...${detokenize(tokens[0].startsWith('...') ? tokens.slice(1) : tokens)}` : detokenize(tokens);
+
+      reply = repairReply(text, persona.rules).text;
+      if (reply && !recent.includes(reply)) break;
+    }
+
+    if (!reply) return null;
+    this.recent.set(persona.id, [...recent, reply].slice(-RECENT_MEMORY));
+    console.log(`[Spirit Box] 🔮 ${persona.name} answers from the corpus: "${reply}"`);
+    return reply;
+  }
+}
+
+/**
+ * States containing a word from the question (matched on its first few letters)
+ */
+function findKeywordStates(model: MarkovModel, question: string): string[][] {
+  const { KEYWORD_MIN_LENGTH, KEYWORD_STEM } = AUDIO_CONFIG.MARKOV;
+  const stems = question
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .filter((word) => word.length >= KEYWORD_MIN_LENGTH && !STOPWORDS.has(word))
+    .map((word) => word.slice(0, KEYWORD_STEM));
+  if (stems.length === 0) return [];
+
+  const normalize = (token: string) => token.toLowerCase().replace(/[^a-z']/g, '');
+  return Object.entries(model.transitions)
+    .filter(([, next]) => next.some(Boolean)) // Not the very end of a line - leave room to say something
+    .map(([state]) => state.split(' '))
+    .filter((state) => state.some((token) => stems.some((stem) => normalize(token).startsWith(stem))));
+}
+
+/**
+ * Follow the chain from a state until a line ends or the word budget is spent
+ */
+function walk(model: MarkovModel, start: string[], maxWords: number): string[] {
+  const tokens = [...start];
+  const words = () => tokens.filter((token) => !token.startsWith('...')).length;
+
+  while (words() < maxWords) {
+    const options = model.transitions[tokens.slice(-model.order).join(' ')];
+    if (!options) break;
+
+    const next = pick(options);
+    if (!next) return tokens;
+    tokens.push(next);
+  }
+
+  // Cut short: trail off rather than stop mid-sentence
+  if (!tokens[tokens.length - 1].startsWith('...')) tokens.push('...');
+  return tokens;
+}
+
+/**
+ * Join tokens back into text, with each ellipsis hugging the word before it
+ */
+function detokenize(tokens: string[]): string {
+  return tokens.reduce((text, token) => (token.startsWith('...') || !text ? text + token : `${text} ${token}`), '');
+}
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(seedService.random('markov') * items.length)];
+}
+
+export const markovGhost = new MarkovGhost();
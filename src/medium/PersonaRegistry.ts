@@ -0,0 +1,46 @@
+/**
+ * Persona Registry
+ *
+ * Every spirit that can answer through the box is a JSON file in
+ * src/config/personas, bundled at build time. The registry validates
+ * them (see PersonaSchema); api/chat reads and validates the same files
+ * to build each spirit's prompt, so a dropped-in file is all it takes.
+ */
+
+import { DEFAULT_PERSONA_ID } from '../config/spectral-constants';
+import { findPersonaProblem } from './PersonaSchema';
+import type { GhostPersona } from '../types';
+
+const personaModules = import.meta.glob<unknown>('../config/personas/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+export class PersonaRegistry {
+  private personas = new Map<string, GhostPersona>();
+
+  register(persona: unknown, source = 'persona'): void {
+    const problem = findPersonaProblem(persona);
+    if (problem) {
+      console.warn(`[Spirit Box] ${source} is incomplete (${problem}), skipping`);
+      return;
+    }
+    const valid = persona as GhostPersona;
+    this.personas.set(valid.id, valid);
+  }
+
+  get(id: string): GhostPersona | undefined {
+    return this.personas.get(id);
+  }
+
+  getAll(): GhostPersona[] {
+    return Array.from(this.personas.values());
+  }
+
+  getDefault(): GhostPersona {
+    return this.personas.get(DEFAULT_PERSONA_ID) ?? this.getAll()[0];
+  }
+}
+
+export const personaRegistry = new PersonaRegistry();
+Object.entries(personaModules).forEach(([path, persona]) => personaRegistry.register(persona, path));
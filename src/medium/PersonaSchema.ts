@@ -0,0 +1,43 @@
+/**
+ * Persona Schema
+ *
+ * The shape every persona JSON file must have. The PersonaRegistry
+ * checks the bundled files with it, and api/chat checks the same files
+ * when it reads them on the server, so this must stay free of browser
+ * and Vite APIs.
+ */
+
+import type { GhostPersona } from '../types';
+
+/** Persona IDs travel in api/chat requests, so keep them short and plain */
+const PERSONA_ID = /^[a-z0-9-]{1,40}$/;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+/**
+ * What is wrong with a parsed persona file, or null if it is complete
+ */
+export function findPersonaProblem(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'not an object';
+  const persona = value as Partial<Record<keyof GhostPersona, unknown>>;
+
+  if (typeof persona.id !== 'string' || !PERSONA_ID.test(persona.id)) return 'id must be lowercase letters, digits or dashes';
+  for (const key of ['name', 'label', 'description', 'prompt', 'effectPreset'] as const) {
+    if (!isText(persona[key])) return `${key} is missing`;
+  }
+
+  const rules = persona.rules as Partial<GhostPersona['rules']> | undefined;
+  if (!rules || !Number.isInteger(rules.maxWords) || (rules.maxWords ?? 0) < 1) return 'rules.maxWords must be a positive whole number';
+  if (typeof rules.allCaps !== 'boolean' || typeof rules.useEllipses !== 'boolean') return 'rules.allCaps and rules.useEllipses must be true or false';
+  if (!isTextList(rules.style)) return 'rules.style must be a list of lines';
+
+  const voice = persona.voice as Partial<GhostPersona['voice']> | undefined;
+  if (!voice || !isText(voice.voice) || typeof voice.speed !== 'number') return 'voice needs a voice and a speed';
+
+  if (!isTextList(persona.exampleLines)) return 'exampleLines must be a list of lines';
+  if (!isTextList(persona.fallbackLines) || persona.fallbackLines.length === 0) return 'fallbackLines must list at least one line';
+  if (!isTextList(persona.refusalLines)) return 'refusalLines must be a list of lines';
+
+  return null;
+}
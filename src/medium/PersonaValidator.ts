@@ -0,0 +1,92 @@
+/**
+ * Persona Validator
+ *
+ * The system prompt asks nicely; this makes sure. Each reply (or each
+ * streamed phrase) is checked against the persona's rules and repaired
+ * where possible: capitals, the word limit, a clean word boundary and a
+ * trailing ellipsis. Replies that break character can't be repaired -
+ * the caller regenerates those.
+ */
+
+import type { PersonaRules } from '../types';
+
+export interface RepairResult {
+  text: string;
+  /** Words in the repaired text */
+  words: number;
+  /** Rules the original text broke */
+  violations: string[];
+  /** The word limit is used up - nothing more should be said */
+  exhausted: boolean;
+}
+
+/**
+ * Tell-tale signs that the model has stepped out of the séance - AI
+ * disclaimer wording only, since a ghost may well say "I AM SORRY..."
+ */
+const OUT_OF_CHARACTER = [
+  /\bas an ai\b/i,
+  /\blanguage model\b/i,
+  /\b(?:ai|virtual|digital) assistant\b/i,
+  /\bI(?:'m| am) (?:just |only )?an? (?:ai|chatbot|bot|computer program)\b/i,
+  /\bsorry,? but I (?:can(?:not|'t)|am unable|won't)\b/i,
+  /\bI can(?:not|'t) (?:help|assist) (?:you )?with (?:that|this)\b/i,
+  /\b(?:chatbot|chatgpt|openai|anthropic)\b/i,
+];
+
+const ELLIPSIS = /\.\.\.|…/;
+
+/**
+ * The out-of-character phrase found in a reply, or null if it is in character
+ */
+export function findCharacterBreak(text: string): string | null {
+  for (const pattern of OUT_OF_CHARACTER) {
+    const match = text.match(pattern);
+    if (match) return match[0];
+  }
+  return null;
+}
+
+/**
+ * Repair a reply (or one phrase of it, given the words already spoken)
+ *
+ * `truncated` says the provider stopped at max_tokens, so the last word
+ * may be cut in half.
+ */
+export function repairReply(text: string, rules: PersonaRules, wordsSpoken = 0, truncated = false): RepairResult {
+  const violations: string[] = [];
+  let repaired = text.trim().replace(/^["'“]+|["'”]+$/g, '');
+  let words = repaired.split(/\s+/).filter(Boolean);
+
+  if (words.length > 0 && !/[.!?…,;:]$/.test(repaired)) {
+    if (truncated && words.length > 1) {
+      violations.push('cut off mid-word');
+      words = words.slice(0, -1);
+      repaired = `${words.join(' ').replace(/[,;:]$/, '')}...`;
+    } else {
+      // The model just stopped - keep every word and let it trail off
+      violations.push('no closing punctuation');
+      repaired = `${repaired}...`;
+    }
+  }
+
+  const budget = rules.maxWords - wordsSpoken;
+  const exhausted = words.length >= budget;
+  if (words.length > budget) {
+    violations.push(`over ${rules.maxWords} words`);
+    words = words.slice(0, Math.max(budget, 0));
+    repaired = words.length > 0 ? `${words.join(' ').replace(/[.!?,;:…]+$/, '')}...` : '';
+  }
+
+  if (rules.allCaps && repaired !== repaired.toUpperCase()) {
+    violations.push('not in capitals');
+    repaired = repaired.toUpperCase();
+  }
+
+  if (rules.useEllipses && repaired && !ELLIPSIS.test(repaired)) {
+    violations.push('no ellipses');
+    repaired = repaired.replace(/[.!]?$/, '...');
+  }
+
+  return { text: repaired, words: words.length, violations, exhausted };
+}
@@ -0,0 +1,42 @@
+/**
+ * Fixed-capacity ring buffer: once full, the oldest item is overwritten
+ */
+export class RingBuffer<T> {
+  private readonly capacity: number;
+  private items: Array<T | undefined>;
+  private start = 0;
+  private count = 0;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.items = new Array(capacity);
+  }
+
+  push(item: T): void {
+    const index = (this.start + this.count) % this.capacity;
+    this.items[index] = item;
+
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Items from oldest to newest
+   */
+  toArray(): T[] {
+    return Array.from({ length: this.count }, (_, i) => this.items[(this.start + i) % this.capacity] as T);
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Seed Service: One Source of Chaos
+ *
+ * Every random decision in the séance - the static, the sweep, the
+ * reverb impulse, the fragmenter, the entropy wobble, the fallback
+ * lines - draws from here. Give a session the same seed (and the same
+ * stubbed network responses) and it plays out identically.
+ *
+ * Each module draws from its own named stream, so adding a random call
+ * in one place doesn't reshuffle every other module's dice.
+ */
+
+import { hashSeed, mulberry32 } from './prng';
+
+const SEED_URL_PARAM = 'seed';
+
+export class SeedService {
+  private seed: string;
+  private urlSeed: string | null;
+  private streams = new Map<string, () => number>();
+
+  constructor() {
+    this.urlSeed = typeof window !== 'undefined'
+      ? new URLSearchParams(window.location.search).get(SEED_URL_PARAM)
+      : null;
+    this.seed = this.urlSeed ?? this.generateSeed();
+  }
+
+  /**
+   * Start a new séance: reuse the ?seed= URL parameter if given,
+   * otherwise roll a fresh seed. All streams restart from the top.
+   */
+  beginSession(): string {
+    this.setSeed(this.urlSeed ?? this.generateSeed());
+    console.log(`[Spirit Box] 🎲 Session seed: ${this.seed}`);
+    return this.seed;
+  }
+
+  setSeed(seed: string): void {
+    this.seed = seed;
+    this.streams.clear();
+  }
+
+  getSeed(): string {
+    return this.seed;
+  }
+
+  /**
+   * Next float in [0, 1) from a named stream (drop-in for Math.random())
+   */
+  random(stream = 'default'): number {
+    let next = this.streams.get(stream);
+    if (!next) {
+      next = mulberry32(this.deriveSeed(stream));
+      this.streams.set(stream, next);
+    }
+    return next();
+  }
+
+  /**
+   * 32-bit seed for a stream, for code that runs its own PRNG (AudioWorklets)
+   */
+  deriveSeed(stream: string): number {
+    return hashSeed(`${this.seed}:${stream}`);
+  }
+
+  /**
+   * Link that replays the current session's seed
+   */
+  getReplayUrl(): string {
+    const url = new URL(window.location.href);
+    url.searchParams.set(SEED_URL_PARAM, this.seed);
+    return url.toString();
+  }
+
+  private generateSeed(): string {
+    const bytes = new Uint32Array(1);
+    crypto.getRandomValues(bytes);
+    return bytes[0].toString(36);
+  }
+}
+
+export const seedService = new SeedService();
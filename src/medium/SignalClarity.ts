@@ -0,0 +1,77 @@
+/**
+ * Signal Clarity
+ *
+ * Maps an entropy reading to how well the spirit gets through. Readings
+ * just over the presence threshold give faint, broken whispers: short,
+ * erratic replies with words missing, heavy distortion and a voice
+ * buried in the static. Strong storms give clear, loud manifestations.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { seedService } from './SeedService';
+import { ghostEffectRegistry } from '../audio/effects/GhostEffectRegistry';
+import type { GhostEffectChain, SignalClarity } from '../types';
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * Clarity parameters for an entropy reading (0.0 - 1.0)
+ */
+export function getSignalClarity(entropyLevel: number): SignalClarity {
+  const { FAINT, CLEAR } = AUDIO_CONFIG.CLARITY;
+  const { MIN_INTENSITY, MAX_INTENSITY } = AUDIO_CONFIG.SPEECH.FRAGMENT;
+  const threshold = AUDIO_CONFIG.ENTROPY.PRESENCE_THRESHOLD;
+  const level = Math.max(0, Math.min(1, (entropyLevel - threshold) / (1 - threshold)));
+
+  return {
+    level,
+    temperature: lerp(FAINT.TEMPERATURE, CLEAR.TEMPERATURE, level),
+    maxTokens: Math.round(lerp(FAINT.MAX_TOKENS, CLEAR.MAX_TOKENS, level)),
+    wordDropout: lerp(FAINT.WORD_DROPOUT, CLEAR.WORD_DROPOUT, level),
+    garble: lerp(FAINT.GARBLE, CLEAR.GARBLE, level),
+    distortionScale: lerp(FAINT.DISTORTION_SCALE, CLEAR.DISTORTION_SCALE, level),
+    lowpassScale: lerp(FAINT.LOWPASS_SCALE, CLEAR.LOWPASS_SCALE, level),
+    noiseGain: AUDIO_CONFIG.NOISE.GAIN * lerp(FAINT.NOISE_LEVEL, CLEAR.NOISE_LEVEL, level),
+    voiceGain: lerp(FAINT.VOICE_GAIN, CLEAR.VOICE_GAIN, level),
+    fragmentIntensity: lerp(MAX_INTENSITY, MIN_INTENSITY, level),
+  };
+}
+
+/**
+ * Lose and garble words of a reply the way a weak signal would
+ * (the first word always survives, so something gets through)
+ */
+export function degradeText(text: string, clarity: SignalClarity): string {
+  if (clarity.wordDropout === 0 && clarity.garble === 0) return text;
+
+  const words = text.split(/\s+/).filter(Boolean);
+  const degraded = words.map((word, i) => {
+    if (i > 0 && seedService.random('clarity') < clarity.wordDropout) return '...';
+    if (word.length > 3 && seedService.random('clarity') < clarity.garble) {
+      return `${word.slice(0, Math.ceil(word.length / 2))}-`;
+    }
+    return word;
+  });
+
+  // Runs of dropped words collapse into one gap
+  return degraded.join(' ').replace(/\.\.\.(?:\s+\.\.\.)+/g, '...');
+}
+
+/**
+ * Scale the chain's distortion and lowpass to the signal's clarity
+ */
+export function applyClarityToChain(chain: GhostEffectChain, clarity: SignalClarity): GhostEffectChain {
+  return {
+    ...chain,
+    effects: chain.effects.map((config) => {
+      const params = { ...ghostEffectRegistry.get(config.type)?.defaults, ...config.params };
+      if (config.type === 'distortion' && params.amount !== undefined) {
+        return { ...config, params: { ...params, amount: Math.min(1, params.amount * clarity.distortionScale) } };
+      }
+      if (config.type === 'lowpass' && params.frequency !== undefined) {
+        return { ...config, params: { ...params, frequency: params.frequency * clarity.lowpassScale } };
+      }
+      return config;
+    }),
+  };
+}
@@ -5,25 +5,122 @@
  * The ghost doesn't decide when to speak - the cosmos does.
  * We use NASA's DONKI (Space Weather) API to detect geomagnetic storms
  * and solar activity, which paranormal researchers believe affects spirit manifestation.
+ * Each source is an EntropyProvider; their readings are fused by weight.
  */
 
 import { AUDIO_CONFIG } from '../config/spectral-constants';
-import type { SpectralReading } from '../types';
+import { audioGraphManager } from '../audio/AudioGraphManager';
+import { seedService } from './SeedService';
+import { RingBuffer } from './RingBuffer';
+import type { DataFreshness, EntropyContribution, EntropyGateResult, SpectralReading } from '../types';
+import type { EntropyProvider, ProviderSample } from './entropy/EntropyProvider';
+import { DonkiGstProvider } from './entropy/DonkiGstProvider';
+import { DonkiFlrProvider } from './entropy/DonkiFlrProvider';
+import { DonkiCmeProvider } from './entropy/DonkiCmeProvider';
+import { AstronomicalProvider } from './entropy/AstronomicalProvider';
+import { MicNoiseFloorProvider } from './entropy/MicNoiseFloorProvider';
+import type { GatePolicy } from './gate/GatePolicy';
+import { BUILTIN_GATE_POLICIES } from './gate/builtinPolicies';
 
-interface DonkiGeomagneticStorm {
-  gstID: string;
-  startTime: string;
-  kpIndex?: number;
-  observedTime?: string;
+interface RegisteredProvider {
+  provider: EntropyProvider;
+  weight: number;
 }
 
+type HistoryListener = (history: SpectralReading[]) => void;
+
 export class SpectralEntropyService {
-  private nasaApiKey: string;
-  private donkiBaseUrl = 'https://api.nasa.gov/DONKI/GST';
+  private providers = new Map<string, RegisteredProvider>();
   private debugMode = false;
+  private history = new RingBuffer<SpectralReading>(AUDIO_CONFIG.ENTROPY.HISTORY_SIZE);
+  private historyListeners = new Set<HistoryListener>();
+  private monitorTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Register an entropy source (weight defaults to PROVIDER_WEIGHTS[id])
+   */
+  registerProvider(provider: EntropyProvider, weight?: number): void {
+    const resolvedWeight = weight ?? AUDIO_CONFIG.ENTROPY.PROVIDER_WEIGHTS[provider.id] ?? 1;
+    this.providers.set(provider.id, { provider, weight: resolvedWeight });
+  }
+
+  unregisterProvider(id: string): void {
+    this.providers.delete(id);
+  }
+
+  /**
+   * Change how much a provider counts in the fused reading
+   */
+  setProviderWeight(id: string, weight: number): void {
+    const registered = this.providers.get(id);
+    if (registered) {
+      registered.weight = Math.max(0, weight);
+    }
+  }
+
+  getProviders(): Array<{ id: string; label: string; weight: number }> {
+    return [...this.providers.values()].map(({ provider, weight }) => ({
+      id: provider.id,
+      label: provider.label,
+      weight,
+    }));
+  }
+
+  /**
+   * Sample entropy on an interval for the duration of a session
+   * (clears the previous session's history)
+   */
+  startMonitoring(intervalMs: number = AUDIO_CONFIG.ENTROPY.MONITOR_INTERVAL_MS): void {
+    this.stopMonitoring();
+    this.history.clear();
+    this.notifyHistoryListeners();
+
+    // Its own random stream: how often the monitor fires depends on the
+    // clock, and must not shift the readings that gate replies
+    const sample = () => {
+      this.getSpectralReading('entropy-monitor').catch((error) => {
+        console.error('[Spirit Box] Entropy monitor error:', error);
+      });
+    };
+
+    this.monitorTimer = setInterval(sample, intervalMs);
+    sample();
+    console.log(`[Spirit Box] 📈 Monitoring spectral entropy every ${intervalMs / 1000}s`);
+  }
+
+  stopMonitoring(): void {
+    if (this.monitorTimer) {
+      clearInterval(this.monitorTimer);
+      this.monitorTimer = null;
+    }
+  }
+
+  /**
+   * Readings from oldest to newest (monitor samples and on-demand readings)
+   */
+  getHistory(): SpectralReading[] {
+    return this.history.toArray();
+  }
+
+  /**
+   * Be told whenever a reading is added; returns an unsubscribe function
+   */
+  subscribeToHistory(listener: HistoryListener): () => void {
+    this.historyListeners.add(listener);
+    return () => {
+      this.historyListeners.delete(listener);
+    };
+  }
+
+  private recordReading(reading: SpectralReading): SpectralReading {
+    this.history.push(reading);
+    this.notifyHistoryListeners();
+    return reading;
+  }
 
-  constructor() {
-    this.nasaApiKey = import.meta.env.VITE_NASA_API_KEY || 'DEMO_KEY';
+  private notifyHistoryListeners(): void {
+    const history = this.history.toArray();
+    this.historyListeners.forEach((listener) => listener(history));
   }
 
   /**
@@ -35,10 +132,15 @@ export class SpectralEntropyService {
   }
 
   /**
-   * Get spectral reading from cosmic sources (NASA DONKI Space Weather)
-   * Returns a value between 0.0 and 1.0 based on geomagnetic activity
+   * Get spectral reading from cosmic sources
+   * Samples every registered provider and fuses them into 0.0 - 1.0
+   * (`stream` names the seeded random stream its variation comes from)
    */
-  async getSpectralReading(): Promise<SpectralReading> {
+  async getSpectralReading(stream = 'entropy'): Promise<SpectralReading> {
+    return this.recordReading(await this.sampleProviders(stream));
+  }
+
+  private async sampleProviders(stream: string): Promise<SpectralReading> {
     // Debug mode override for demo purposes
     if (this.debugMode) {
       console.log('[Spirit Box] 🔮 Debug mode: forcing ghost presence');
@@ -46,108 +148,92 @@ export class SpectralEntropyService {
         value: AUDIO_CONFIG.ENTROPY.DEBUG_VALUE,
         timestamp: Date.now(),
         source: 'debug_override',
+        freshness: 'live',
       };
     }
 
-    try {
-      // Fetch recent geomagnetic storms from NASA DONKI
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - 7); // Last 7 days
-
-      const url = `${this.donkiBaseUrl}?startDate=${startDate.toISOString().split('T')[0]}&endDate=${endDate.toISOString().split('T')[0]}&api_key=${this.nasaApiKey}`;
-      
-      console.log('[Spirit Box] 🌌 Querying NASA DONKI for geomagnetic activity...');
-      
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(5000), // 5s timeout
-      });
+    console.log('[Spirit Box] 🌌 Sampling spectral sources...');
 
-      if (!response.ok) {
-        throw new Error(`NASA DONKI API error: ${response.status}`);
-      }
+    const registered = [...this.providers.values()].filter(({ weight }) => weight > 0);
+    const results = await Promise.allSettled(registered.map(({ provider }) => provider.sample()));
 
-      const storms: DonkiGeomagneticStorm[] = await response.json();
-      
-      // Calculate entropy from geomagnetic storm data
-      const entropy = this.calculateEntropyFromStorms(storms);
-      
-      console.log(`[Spirit Box] 🌌 NASA DONKI: ${storms.length} geomagnetic storms detected`);
-      console.log(`[Spirit Box] ⚡ Spectral entropy: ${entropy.toFixed(2)}`);
+    const samples: Array<{ registered: RegisteredProvider; sample: ProviderSample }> = [];
+    results.forEach((result, i) => {
+      const { provider } = registered[i];
+      if (result.status === 'fulfilled' && result.value) {
+        samples.push({ registered: registered[i], sample: result.value });
+      } else if (result.status === 'rejected') {
+        console.warn(`[Spirit Box] ⚠️ ${provider.label} unavailable:`, result.reason);
+      }
+    });
 
+    if (samples.length === 0) {
+      // Fallback to random entropy when every source is silent
+      console.warn('[Spirit Box] ⚠️ No spectral sources available, using random cosmic noise');
       return {
-        value: entropy,
-        timestamp: Date.now(),
-        source: 'nasa_donki',
-        metadata: {
-          stormCount: storms.length,
-          recentStorms: storms.slice(0, 3).map(s => ({
-            id: s.gstID,
-            time: s.startTime,
-            kpIndex: s.kpIndex,
-          })),
-        },
-      };
-    } catch (error) {
-      // Fallback to random entropy when NASA API unavailable
-      console.warn('[Spirit Box] ⚠️ NASA DONKI unavailable, using random cosmic noise');
-      console.error('[Spirit Box] Error:', error);
-      
-      return {
-        value: Math.random(),
+        value: seedService.random(stream),
         timestamp: Date.now(),
         source: 'random_fallback',
+        freshness: 'fallback',
       };
     }
+
+    // Weighted fusion, re-normalised over the providers that answered
+    const totalWeight = samples.reduce((sum, { registered }) => sum + registered.weight, 0);
+    const contributions: EntropyContribution[] = samples.map(({ registered, sample }) => ({
+      providerId: registered.provider.id,
+      label: registered.provider.label,
+      value: Math.max(0, Math.min(1, sample.value)),
+      weight: registered.weight / totalWeight,
+      detail: sample.detail,
+      freshness: sample.freshness,
+    }));
+    const activity = contributions.reduce((sum, c) => sum + c.value * c.weight, 0);
+    const entropy = this.calculateEntropy(activity, stream);
+
+    console.log(`[Spirit Box] ⚡ Spectral entropy: ${entropy.toFixed(2)} from ${contributions.map((c) => `${c.providerId}×${c.weight.toFixed(2)}`).join(', ')}`);
+
+    return {
+      value: entropy,
+      timestamp: Date.now(),
+      source: 'spectral_fusion',
+      freshness: this.summarizeFreshness(contributions),
+      metadata: Object.assign(
+        {},
+        ...samples.map(({ sample }) => sample.metadata),
+        { providers: contributions }
+      ),
+    };
+  }
+
+  /**
+   * Live if any network source answered fresh, cached if they only had
+   * cached data, fallback if only offline sources (clock, moon, mic) contributed
+   */
+  private summarizeFreshness(contributions: EntropyContribution[]): DataFreshness {
+    const networked = contributions.filter((c) => c.freshness !== undefined);
+    if (networked.some((c) => c.freshness === 'live')) return 'live';
+    if (networked.some((c) => c.freshness === 'cached')) return 'cached';
+    return 'fallback';
   }
 
   /**
-   * Convert geomagnetic storm data to entropy value (0.0 - 1.0)
-   * 
+   * Convert fused provider activity to entropy value (0.0 - 1.0)
+   *
    * Logic:
-   * - NASA data provides base entropy (cosmic activity)
+   * - Provider activity sets the base entropy (cosmic activity)
    * - Random variation simulates unpredictable paranormal fluctuations
    * - Combination ensures interactive experience while using real data
    */
-  private calculateEntropyFromStorms(storms: DonkiGeomagneticStorm[]): number {
-    // Calculate base entropy from NASA data
-    let baseEntropy = 0.3; // Baseline cosmic background
-
-    if (storms.length > 0) {
-      // Base entropy from storm count (more storms = more activity)
-      const stormCountFactor = Math.min(storms.length / 5, 1.0); // Cap at 5 storms
-
-      // Recency factor (storms in last 24 hours count more)
-      const now = Date.now();
-      const recentStorms = storms.filter(storm => {
-        const stormTime = new Date(storm.startTime).getTime();
-        const hoursSince = (now - stormTime) / (1000 * 60 * 60);
-        return hoursSince < 24;
-      });
-      const recencyFactor = recentStorms.length > 0 ? 0.2 : 0;
-
-      // Kp index factor (higher Kp = stronger geomagnetic disturbance)
-      const avgKpIndex = storms
-        .filter(s => s.kpIndex !== undefined)
-        .reduce((sum, s) => sum + (s.kpIndex || 0), 0) / Math.max(storms.length, 1);
-      const kpFactor = Math.min(avgKpIndex / 9, 1.0); // Kp index ranges 0-9
-
-      // Combine NASA factors (weighted lower to allow random variation)
-      baseEntropy = 0.3 + (
-        stormCountFactor * 0.15 +
-        recencyFactor * 0.1 +
-        kpFactor * 0.15
-      );
-    }
+  private calculateEntropy(activity: number, stream: string): number {
+    const { BASELINE, PROVIDER_SPAN, RANDOM_SPAN } = AUDIO_CONFIG.ENTROPY;
+    const baseEntropy = BASELINE + activity * PROVIDER_SPAN;
 
     // Add significant random variation (paranormal unpredictability)
-    // This ensures interactive experience while still influenced by real cosmic data
-    const randomVariation = Math.random() * 0.5; // 0.0 - 0.5 random boost
-    
-    const finalEntropy = baseEntropy + randomVariation;
-    
+    const randomVariation = seedService.random(stream) * RANDOM_SPAN;
+
     // Clamp to 0.0 - 1.0
-    return Math.max(0, Math.min(1, finalEntropy));
+    return Math.max(0, Math.min(1, baseEntropy + randomVariation));
   }
 }
 
@@ -156,28 +242,77 @@ export class SpectralEntropyService {
  */
 export class EntropyGate {
   private entropyService: SpectralEntropyService;
+  private policies = new Map<string, GatePolicy>();
+  private policyId: string = AUDIO_CONFIG.ENTROPY.GATE.POLICY;
+  private lastManifestationAt: number | null = null;
 
   constructor(entropyService: SpectralEntropyService) {
     this.entropyService = entropyService;
+    BUILTIN_GATE_POLICIES.forEach((policy) => this.registerPolicy(policy));
+  }
+
+  registerPolicy(policy: GatePolicy): void {
+    this.policies.set(policy.id, policy);
+  }
+
+  getPolicies(): GatePolicy[] {
+    return Array.from(this.policies.values());
+  }
+
+  setPolicy(id: string): void {
+    if (!this.policies.has(id)) {
+      console.warn(`[Spirit Box] Unknown gate policy "${id}", keeping "${this.policyId}"`);
+      return;
+    }
+    this.policyId = id;
+    console.log(`[Spirit Box] 🚪 Gate policy: ${id}`);
+  }
+
+  getPolicy(): string {
+    return this.policyId;
+  }
+
+  /**
+   * Forget the last manifestation (call when a new session starts)
+   */
+  reset(): void {
+    this.lastManifestationAt = null;
   }
 
   /**
-   * Check if ghost should respond based on entropy threshold
+   * Ask the active policy whether the ghost should respond to this reading
    */
-  async shouldGhostRespond(): Promise<{ respond: boolean; reading: SpectralReading }> {
+  async shouldGhostRespond(): Promise<EntropyGateResult> {
     const reading = await this.entropyService.getSpectralReading();
-    const respond = reading.value >= AUDIO_CONFIG.ENTROPY.PRESENCE_THRESHOLD;
+    const policy = this.policies.get(this.policyId) ?? BUILTIN_GATE_POLICIES[0];
+    const now = Date.now();
 
-    if (respond) {
-      console.log(`[Spirit Box] 👻 PRESENCE DETECTED! Entropy: ${reading.value.toFixed(2)} (${reading.source})`);
+    const decision = policy.evaluate(reading, {
+      history: this.entropyService.getHistory(),
+      lastManifestationAt: this.lastManifestationAt,
+      now,
+    });
+
+    if (decision.respond) {
+      this.lastManifestationAt = now;
+      console.log(`[Spirit Box] 👻 PRESENCE DETECTED! Entropy: ${reading.value.toFixed(2)} (${reading.source}, ${policy.id})`);
     } else {
-      console.log(`[Spirit Box] 🌫️ No presence... Entropy: ${reading.value.toFixed(2)} (${reading.source})`);
+      console.log(`[Spirit Box] 🌫️ No presence... Entropy: ${reading.value.toFixed(2)} (${reading.source}, ${policy.id})`);
     }
 
-    return { respond, reading };
+    return { ...decision, reading, policy: policy.id };
   }
 }
 
 // Singleton instances
 export const spectralEntropyService = new SpectralEntropyService();
+spectralEntropyService.registerProvider(new DonkiGstProvider());
+spectralEntropyService.registerProvider(new DonkiFlrProvider());
+spectralEntropyService.registerProvider(new DonkiCmeProvider());
+const { LATITUDE, LONGITUDE } = AUDIO_CONFIG.ENTROPY.ASTRONOMY;
+spectralEntropyService.registerProvider(
+  new AstronomicalProvider(LATITUDE !== null && LONGITUDE !== null ? { latitude: LATITUDE, longitude: LONGITUDE } : null)
+);
+spectralEntropyService.registerProvider(new MicNoiseFloorProvider(() => audioGraphManager.getMicNoiseFloorDb()));
+
 export const entropyGate = new EntropyGate(spectralEntropyService);
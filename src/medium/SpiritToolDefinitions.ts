@@ -0,0 +1,138 @@
+/**
+ * Spirit Tool Definitions
+ *
+ * The functions the model is offered, and the check every call it makes
+ * must pass. api/chat attaches these to each request itself and checks
+ * each call before forwarding it, so this file must stay free of browser
+ * APIs - the device side lives in SpiritTools.ts.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import type { ChatToolCall, ChatToolDefinition, SpiritToolCall, SpiritToolName } from '../types';
+
+/** The JSON Schema subset the spirit's tool arguments use */
+interface ArgumentSchema {
+  type: 'integer' | 'number' | 'string';
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+}
+
+interface SpiritToolDefinition extends ChatToolDefinition {
+  name: SpiritToolName;
+  parameters: {
+    type: 'object';
+    properties: Record<string, ArgumentSchema>;
+    required?: string[];
+    additionalProperties: false;
+  };
+}
+
+export const SPIRIT_TOOLS: SpiritToolDefinition[] = [
+  {
+    name: 'knock',
+    description: 'Knock on the walls of the room where the living sit.',
+    parameters: {
+      type: 'object',
+      properties: {
+        count: { type: 'integer', minimum: 1, maximum: AUDIO_CONFIG.SPIRIT_TOOLS.MAX_KNOCKS },
+      },
+      required: ['count'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'static_burst',
+    description: 'Surge through the radio as a roar of static.',
+    parameters: {
+      type: 'object',
+      properties: {
+        seconds: { type: 'number', minimum: 0.2, maximum: AUDIO_CONFIG.SPIRIT_TOOLS.MAX_STATIC_SECONDS },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'radar_flare',
+    description: 'Flare up on the spectral radar, showing exactly where you stand.',
+    parameters: {
+      type: 'object',
+      properties: {
+        intensity: { type: 'number', minimum: 0, maximum: 1 },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'screen_flicker',
+    description: 'Make the lights (the screen) flicker.',
+    parameters: {
+      type: 'object',
+      properties: {
+        milliseconds: { type: 'integer', minimum: 200, maximum: AUDIO_CONFIG.SPIRIT_TOOLS.MAX_FLICKER_MS },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'whisper_name',
+    description: "Whisper the investigator's name, if they have told you it.",
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', maxLength: AUDIO_CONFIG.SPIRIT_TOOLS.MAX_NAME_CHARS },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'go_silent',
+    description: 'Withdraw: stop speaking and let the box fall completely silent.',
+    parameters: {
+      type: 'object',
+      properties: {
+        seconds: { type: 'number', minimum: 1, maximum: AUDIO_CONFIG.SPIRIT_TOOLS.MAX_SILENCE_SECONDS },
+      },
+      additionalProperties: false,
+    },
+  },
+];
+
+const TOOLS_BY_NAME = new Map<string, SpiritToolDefinition>(SPIRIT_TOOLS.map((tool) => [tool.name, tool]));
+
+export function isSpiritToolCall(call: ChatToolCall): call is SpiritToolCall {
+  return TOOLS_BY_NAME.has(call.name);
+}
+
+/**
+ * What is wrong with a tool call's arguments, or null if they fit its schema
+ */
+export function findToolCallProblem(call: ChatToolCall): string | null {
+  const tool = TOOLS_BY_NAME.get(call.name);
+  if (!tool) return `unknown tool "${call.name}"`;
+
+  const { properties, required = [] } = tool.parameters;
+  const missing = required.find((key) => !(key in call.arguments));
+  if (missing) return `${call.name} is missing "${missing}"`;
+
+  for (const [key, value] of Object.entries(call.arguments)) {
+    const schema = properties[key];
+    if (!schema) return `${call.name} does not take "${key}"`;
+
+    if (schema.type === 'string') {
+      if (typeof value !== 'string') return `${call.name}.${key} must be a string`;
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return `${call.name}.${key} is over ${schema.maxLength} characters`;
+      }
+      continue;
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) return `${call.name}.${key} must be a number`;
+    if (schema.type === 'integer' && !Number.isInteger(value)) return `${call.name}.${key} must be a whole number`;
+    if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+      return `${call.name}.${key} is out of range`;
+    }
+  }
+
+  return null;
+}
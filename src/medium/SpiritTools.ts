@@ -0,0 +1,80 @@
+/**
+ * Spirit Tools
+ *
+ * The ghost can do more than talk. This is the code that carries out
+ * its tool calls on the device: knocks and static through the
+ * AudioGraphManager, a flare on the Spectral Radar, a flickering screen,
+ * a whispered name, and dead silence. The definitions offered to the
+ * model live in SpiritToolDefinitions.ts.
+ */
+
+import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { audioGraphManager } from '../audio/AudioGraphManager';
+import { ttsService } from './TTSService';
+import type { SpiritToolCall, SpiritToolName } from '../types';
+
+/** Hooks into the UI that tool calls drive */
+export interface SpiritToolContext {
+  /** Name to whisper when the model doesn't give one */
+  investigatorName: string | null;
+  onRadarFlare: (intensity: number) => void;
+  onScreenFlicker: (durationMs: number) => void;
+}
+
+/** Numeric argument, clamped; the default covers missing or garbled values */
+function numberArg(call: SpiritToolCall, key: string, fallback: number, min: number, max: number): number {
+  const value = Number(call.arguments[key]);
+  return Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const EXECUTORS: Record<SpiritToolName, (call: SpiritToolCall, context: SpiritToolContext) => Promise<void>> = {
+  knock: async (call) => {
+    const count = Math.round(numberArg(call, 'count', 2, 1, AUDIO_CONFIG.SPIRIT_TOOLS.MAX_KNOCKS));
+    await wait(audioGraphManager.playKnocks(count) * 1000);
+  },
+
+  static_burst: async (call) => {
+    const seconds = numberArg(call, 'seconds', 1, 0.2, AUDIO_CONFIG.SPIRIT_TOOLS.MAX_STATIC_SECONDS);
+    audioGraphManager.playStaticBurst(seconds);
+    await wait(seconds * 1000);
+  },
+
+  radar_flare: async (call, context) => {
+    context.onRadarFlare(numberArg(call, 'intensity', 0.8, 0, 1));
+  },
+
+  screen_flicker: async (call, context) => {
+    context.onScreenFlicker(numberArg(call, 'milliseconds', 1200, 200, AUDIO_CONFIG.SPIRIT_TOOLS.MAX_FLICKER_MS));
+  },
+
+  whisper_name: async (call, context) => {
+    const given = typeof call.arguments.name === 'string' ? call.arguments.name.trim() : '';
+    const name = given || context.investigatorName;
+    const audioContext = audioGraphManager.getAudioContext();
+    const voiceBus = audioGraphManager.getVoiceBus();
+    if (!name || !audioContext || !voiceBus) return;
+
+    const duration = await ttsService.whisper(`${name}...`, audioContext, voiceBus);
+    await wait(duration * 1000);
+  },
+
+  go_silent: async (call) => {
+    const seconds = numberArg(call, 'seconds', 3, 1, AUDIO_CONFIG.SPIRIT_TOOLS.MAX_SILENCE_SECONDS);
+    audioGraphManager.silence(seconds);
+    await wait(seconds * 1000);
+  },
+};
+
+/**
+ * Carry out one tool call; resolves once the effect has played out
+ */
+export async function executeSpiritTool(call: SpiritToolCall, context: SpiritToolContext): Promise<void> {
+  console.log(`[Spirit Box] 🪄 Spirit used ${call.name}`, call.arguments);
+  try {
+    await EXECUTORS[call.name](call, context);
+  } catch (error) {
+    console.error(`[Spirit Box] Spirit tool ${call.name} failed:`, error);
+  }
+}
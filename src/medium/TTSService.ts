@@ -4,12 +4,27 @@
  * We take modern TTS output and run it through vintage-style
  * audio processors (convolution reverb, distortion) to make it
  * sound like it's coming from a 1970s radio or EVP device.
+ * The processors themselves live in the GhostEffectRegistry; the
+ * chain is data, chosen from EFFECT_PRESETS.
  */
 
-import { AUDIO_CONFIG } from '../config/spectral-constants';
+import { AUDIO_CONFIG, EFFECT_PRESETS } from '../config/spectral-constants';
+import { applyEffectChain } from '../audio/effects/GhostEffectChain';
+import { fragmentSpeech } from '../audio/SpeechFragmenter';
+import { applyClarityToChain } from './SignalClarity';
+import type {
+  GhostEffectChain,
+  GhostPersona,
+  SignalClarity,
+  SpiritToolCall,
+  SpiritUtterance,
+} from '../types';
 
 export class TTSService {
   private baseUrl = '/api/tts'; // Use our secure API route
+  private effectChain: GhostEffectChain = EFFECT_PRESETS[AUDIO_CONFIG.SPEECH.EFFECT_PRESET];
+  private fragmentationEnabled: boolean = AUDIO_CONFIG.SPEECH.FRAGMENT.ENABLED;
+  private voice: GhostPersona['voice'] = { voice: 'onyx', speed: 0.75 };
 
   /**
    * Convert text to speech using OpenAI TTS API
@@ -28,8 +43,8 @@ export class TTSService {
         },
         body: JSON.stringify({
           text: text,
-          voice: 'onyx', // Deep, gravelly voice for the ghost
-          speed: 0.75, // Much slower for eerie effect
+          voice: this.voice.voice,
+          speed: this.voice.speed,
         }),
       });
 
@@ -73,93 +88,131 @@ export class TTSService {
   }
 
   /**
-   * Apply radio-like effects to the audio buffer
+   * Speak phrases as they stream in from the LLM
+   *
+   * Each phrase is sent for synthesis the moment it arrives, while the
+   * ones before it are still playing; `onPhrase` fires as each one
+   * starts, so the transcript can keep pace with the voice. Tool calls
+   * take their turn in the same queue: `onTool` runs once everything
+   * before it has played, and the next phrase waits for it. Distortion,
+   * lowpass and fragmentation follow the signal's clarity.
    */
-  async applyGhostEffects(
-    audioBuffer: AudioBuffer,
-    audioContext: AudioContext
-  ): Promise<{ source: AudioBufferSourceNode; duration: number }> {
-    console.log('[Spirit Box DEBUG] 📻 Applying ghost effects to audio...');
-    
-    // Create source node
-    const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    
-    // Lower the playback rate to make voice deeper and slower
-    source.playbackRate.value = 0.85; // Deeper, slower voice
-
-    // Create a low-pass filter to muffle the voice (radio effect)
-    const lowPassFilter = audioContext.createBiquadFilter();
-    lowPassFilter.type = 'lowpass';
-    lowPassFilter.frequency.value = 2000; // Cut high frequencies
-    lowPassFilter.Q.value = 1;
-
-    // Create distortion curve for that "radio static" feel
-    const distortion = audioContext.createWaveShaper();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    distortion.curve = this.makeDistortionCurve(AUDIO_CONFIG.SPEECH.DISTORTION_AMOUNT * 400) as any;
-    distortion.oversample = '4x';
-
-    // Create convolver for reverb (we'll use a simple impulse response)
-    const convolver = audioContext.createConvolver();
-    convolver.buffer = this.createReverbImpulse(audioContext);
-
-    // Create gain for the processed signal (more wet for ghostly effect)
-    const wetGain = audioContext.createGain();
-    wetGain.gain.value = 0.85; // More reverb
-
-    const dryGain = audioContext.createGain();
-    dryGain.gain.value = 0.15; // Less dry signal
-
-    // Connect: Source → LowPass → Distortion → Convolver → Wet Gain → Destination
-    //          Source → LowPass → Dry Gain → Destination
-    source.connect(lowPassFilter);
-    lowPassFilter.connect(distortion);
-    distortion.connect(convolver);
-    convolver.connect(wetGain);
-    wetGain.connect(audioContext.destination);
-
-    lowPassFilter.connect(dryGain);
-    dryGain.connect(audioContext.destination);
-
-    console.log('[Spirit Box DEBUG] ✅ Ghost effects applied (lowpass, distortion, reverb)');
-
-    return { source, duration: audioBuffer.duration / source.playbackRate.value };
+  async speakUtterances(
+    utterances: AsyncIterable<SpiritUtterance>,
+    audioContext: AudioContext,
+    destination: AudioNode,
+    clarity: SignalClarity,
+    onPhrase: (phrase: string, refused: boolean) => void,
+    onTool: (call: SpiritToolCall) => Promise<void>
+  ): Promise<void> {
+    const chain = applyClarityToChain(this.effectChain, clarity);
+    let playback = Promise.resolve();
+
+    for await (const utterance of utterances) {
+      if (utterance.kind === 'tool') {
+        playback = playback.then(() => onTool(utterance.call));
+        continue;
+      }
+
+      const phrase = utterance.text;
+      const refused = utterance.moderated !== undefined;
+      const speech = this.synthesize(phrase, audioContext);
+
+      playback = playback.then(async () => {
+        const audioBuffer = this.fragmentSpeech(await speech, audioContext, clarity);
+        const { source, duration } = await this.applyGhostEffects(audioBuffer, audioContext, destination, chain);
+
+        source.start();
+        onPhrase(phrase, refused);
+        await new Promise((resolve) => setTimeout(resolve, duration * 1000));
+      });
+    }
+
+    await playback;
   }
 
   /**
-   * Create a distortion curve for the WaveShaperNode
+   * Whisper a few words close to the ear, in the current voice but
+   * through the 'whisper' preset. Resolves to how long it lasts (s).
    */
-  private makeDistortionCurve(amount: number): Float32Array {
-    const samples = 44100;
-    const curve = new Float32Array(samples);
-    const deg = Math.PI / 180;
-
-    for (let i = 0; i < samples; i++) {
-      const x = (i * 2) / samples - 1;
-      curve[i] = ((3 + amount) * x * 20 * deg) / (Math.PI + amount * Math.abs(x));
-    }
+  async whisper(text: string, audioContext: AudioContext, destination: AudioNode): Promise<number> {
+    const level = audioContext.createGain();
+    level.gain.value = AUDIO_CONFIG.SPIRIT_TOOLS.WHISPER_GAIN;
+    level.connect(destination);
+
+    const audioBuffer = await this.synthesize(text, audioContext);
+    const { source, duration } = await this.applyGhostEffects(
+      audioBuffer,
+      audioContext,
+      level,
+      EFFECT_PRESETS['whisper']
+    );
+    source.start();
+    return duration;
+  }
 
-    return curve;
+  /**
+   * Splice speech into broken syllables between bursts of static
+   *
+   * Intensity follows the clarity of the reading that gated the reply: a
+   * signal barely over the threshold comes through in scraps, a strong
+   * storm lets most of the sentence survive.
+   */
+  fragmentSpeech(audioBuffer: AudioBuffer, audioContext: AudioContext, clarity: SignalClarity): AudioBuffer {
+    if (!this.fragmentationEnabled) return audioBuffer;
+
+    return fragmentSpeech(audioBuffer, audioContext, clarity.fragmentIntensity);
   }
 
   /**
-   * Create a simple reverb impulse response
+   * Take on a persona's voice and effect preset
    */
-  private createReverbImpulse(audioContext: AudioContext): AudioBuffer {
-    const sampleRate = audioContext.sampleRate;
-    const length = sampleRate * AUDIO_CONFIG.SPEECH.REVERB_DECAY;
-    const impulse = audioContext.createBuffer(2, length, sampleRate);
-
-    for (let channel = 0; channel < 2; channel++) {
-      const channelData = impulse.getChannelData(channel);
-      for (let i = 0; i < length; i++) {
-        // Exponential decay with random noise
-        channelData[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 2);
-      }
+  setPersona(persona: GhostPersona): void {
+    this.voice = persona.voice;
+    this.setEffectPreset(persona.effectPreset);
+  }
+
+  setFragmentationEnabled(enabled: boolean): void {
+    this.fragmentationEnabled = enabled;
+  }
+
+  /**
+   * Use a named preset from EFFECT_PRESETS for the ghost voice
+   */
+  setEffectPreset(presetId: string): void {
+    const chain = EFFECT_PRESETS[presetId];
+    if (!chain) {
+      console.warn(`[Spirit Box] Unknown effect preset "${presetId}", keeping current chain`);
+      return;
     }
+    this.effectChain = chain;
+  }
+
+  /**
+   * Use a custom effect chain for the ghost voice
+   */
+  setEffectChain(chain: GhostEffectChain): void {
+    this.effectChain = chain;
+  }
+
+  getEffectChain(): GhostEffectChain {
+    return this.effectChain;
+  }
 
-    return impulse;
+  /**
+   * Apply radio-like effects to the audio buffer
+   *
+   * The processed voice is routed into `destination` - normally the
+   * AudioGraphManager voice bus, so it shares the master gain and analyser.
+   */
+  async applyGhostEffects(
+    audioBuffer: AudioBuffer,
+    audioContext: AudioContext,
+    destination: AudioNode = audioContext.destination,
+    chain: GhostEffectChain = this.effectChain
+  ): Promise<{ source: AudioBufferSourceNode; duration: number }> {
+    console.log('[Spirit Box DEBUG] 📻 Applying ghost effects to audio...');
+    return applyEffectChain(audioBuffer, audioContext, chain, destination);
   }
 }
 
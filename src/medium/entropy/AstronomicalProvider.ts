@@ -0,0 +1,147 @@
+/**
+ * Astronomical factors - the moon, the witching hour and the old calendar
+ *
+ * Everything is worked out from the device clock (and an optional
+ * latitude/longitude), so this source keeps answering when NASA can't.
+ */
+
+import { AUDIO_CONFIG } from '../../config/spectral-constants';
+import type { EntropyProvider, ProviderSample } from './EntropyProvider';
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+interface CalendarDate {
+  name: string;
+  month: number; // 1-12
+  day: number;
+}
+
+/** A known new moon: 2000-01-06 18:14 UTC */
+const REFERENCE_NEW_MOON = Date.UTC(2000, 0, 6, 18, 14);
+const SYNODIC_MONTH_DAYS = 29.530588853;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Nights when the veil is thin (northern hemisphere) */
+const NORTHERN_DATES: CalendarDate[] = [
+  { name: 'Samhain', month: 10, day: 31 },
+  { name: 'All Souls', month: 11, day: 2 },
+  { name: 'Walpurgis Night', month: 4, day: 30 },
+];
+
+/** South of the equator the Celtic year is turned around */
+const SOUTHERN_DATES: CalendarDate[] = [
+  { name: 'Halloween', month: 10, day: 31 },
+  { name: 'All Souls', month: 11, day: 2 },
+  { name: 'Samhain', month: 4, day: 30 },
+];
+
+const MOON_ICONS = ['🌑', '🌒', '🌓', '🌔', '🌕', '🌖', '🌗', '🌘'];
+
+export class AstronomicalProvider implements EntropyProvider {
+  id = 'astronomical';
+  label = 'Moon phase, witching hour and calendar';
+
+  private location: GeoLocation | null;
+
+  constructor(location: GeoLocation | null = null) {
+    this.location = location;
+  }
+
+  /**
+   * Use solar time and the right hemisphere's calendar for this place
+   */
+  setLocation(location: GeoLocation | null): void {
+    this.location = location;
+  }
+
+  async sample(): Promise<ProviderSample> {
+    const { MOON_WEIGHT, HOUR_WEIGHT, CALENDAR_WEIGHT } = AUDIO_CONFIG.ENTROPY.ASTRONOMY;
+    const now = new Date();
+
+    const phase = this.moonPhase(now);
+    const illumination = (1 - Math.cos(phase * Math.PI * 2)) / 2;
+    const hour = this.localHour(now);
+    const witching = this.witchingFactor(hour);
+    const calendar = this.nearestDate(now);
+
+    const value = illumination * MOON_WEIGHT + witching.value * HOUR_WEIGHT + calendar.value * CALENDAR_WEIGHT;
+
+    const moonIcon = MOON_ICONS[Math.round(phase * 8) % 8];
+    const dateDetail = calendar.value > 0 ? `, ${calendar.name} ${calendar.days === 0 ? 'tonight' : `in ${calendar.days}d`}` : '';
+
+    return {
+      value: Math.min(1, value),
+      detail: `${moonIcon} ${(illumination * 100).toFixed(0)}%, ${witching.hoursTo3am.toFixed(1)}h to 3 AM${dateDetail}`,
+      metadata: {
+        astronomy: {
+          moonPhase: phase,
+          moonIllumination: illumination,
+          hoursToMidnight: witching.hoursToMidnight,
+          hoursTo3am: witching.hoursTo3am,
+          nearestDate: calendar.name,
+          daysToNearestDate: calendar.days,
+        },
+      },
+    };
+  }
+
+  /**
+   * Fraction of the lunar cycle: 0 = new, 0.5 = full
+   */
+  private moonPhase(date: Date): number {
+    const days = (date.getTime() - REFERENCE_NEW_MOON) / DAY_MS;
+    return (((days / SYNODIC_MONTH_DAYS) % 1) + 1) % 1;
+  }
+
+  /**
+   * Hour of the night: local mean solar time if we know the longitude,
+   * otherwise the device clock
+   */
+  private localHour(date: Date): number {
+    if (this.location) {
+      const utcHour = date.getUTCHours() + date.getUTCMinutes() / 60;
+      return (((utcHour + this.location.longitude / 15) % 24) + 24) % 24;
+    }
+    return date.getHours() + date.getMinutes() / 60;
+  }
+
+  /**
+   * Closeness to midnight and (more strongly) to 3 AM
+   */
+  private witchingFactor(hour: number): { value: number; hoursToMidnight: number; hoursTo3am: number } {
+    const { WITCHING_WINDOW_HOURS } = AUDIO_CONFIG.ENTROPY.ASTRONOMY;
+    const hoursUntil = (target: number) => (target - hour + 24) % 24;
+    const closeness = (target: number) => {
+      const until = hoursUntil(target);
+      return Math.max(0, 1 - Math.min(until, 24 - until) / WITCHING_WINDOW_HOURS);
+    };
+
+    return {
+      value: Math.max(closeness(3), closeness(0) * 0.8),
+      hoursToMidnight: hoursUntil(0),
+      hoursTo3am: hoursUntil(3),
+    };
+  }
+
+  /**
+   * The closest thin-veil night, and how strongly it is felt
+   */
+  private nearestDate(date: Date): { name: string; days: number; value: number } {
+    const { CALENDAR_WINDOW_DAYS } = AUDIO_CONFIG.ENTROPY.ASTRONOMY;
+    const dates = this.location && this.location.latitude < 0 ? SOUTHERN_DATES : NORTHERN_DATES;
+    const today = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+    let nearest = { name: dates[0].name, days: Infinity };
+    for (const { name, month, day } of dates) {
+      for (const year of [date.getFullYear() - 1, date.getFullYear(), date.getFullYear() + 1]) {
+        const days = Math.round(Math.abs(new Date(year, month - 1, day).getTime() - today) / DAY_MS);
+        if (days < nearest.days) nearest = { name, days };
+      }
+    }
+
+    return { ...nearest, value: Math.max(0, 1 - nearest.days / CALENDAR_WINDOW_DAYS) };
+  }
+}
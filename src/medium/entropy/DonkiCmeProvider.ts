@@ -0,0 +1,28 @@
+/**
+ * Coronal mass ejections (CME) - fast plasma, restless spirits
+ */
+
+import type { EntropyProvider, ProviderSample } from './EntropyProvider';
+import { fetchDonkiEvents } from './donki';
+
+export class DonkiCmeProvider implements EntropyProvider {
+  id = 'donki_cme';
+  label = 'NASA DONKI coronal mass ejections';
+
+  async sample(): Promise<ProviderSample> {
+    const { events: ejections, freshness } = await fetchDonkiEvents('CME');
+    if (ejections.length === 0) {
+      return { value: 0, detail: 'no CMEs', freshness };
+    }
+
+    const fastest = Math.max(0, ...ejections.map((cme) => cme.speed ?? 0));
+    const countFactor = Math.min(ejections.length / 8, 1.0);
+    const speedFactor = Math.min(fastest / 2000, 1.0); // 2000 km/s is an extreme CME
+
+    return {
+      value: countFactor * 0.5 + speedFactor * 0.5,
+      detail: `${ejections.length} CME${ejections.length === 1 ? '' : 's'}, fastest ${fastest.toFixed(0)} km/s`,
+      freshness,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Solar flares (FLR) - X-class flares light up the veil
+ */
+
+import type { EntropyProvider, ProviderSample } from './EntropyProvider';
+import { fetchDonkiEvents, hoursSince } from './donki';
+
+/** Rough strength of each GOES flare class */
+const FLARE_CLASS_STRENGTH: Record<string, number> = {
+  X: 1.0,
+  M: 0.6,
+  C: 0.3,
+  B: 0.1,
+  A: 0.05,
+};
+
+export class DonkiFlrProvider implements EntropyProvider {
+  id = 'donki_flr';
+  label = 'NASA DONKI solar flares';
+
+  async sample(): Promise<ProviderSample> {
+    const { events: flares, freshness } = await fetchDonkiEvents('FLR');
+    if (flares.length === 0) {
+      return { value: 0, detail: 'no flares', freshness };
+    }
+
+    // Strongest flare, faded by age (half strength after ~2 days)
+    const strongest = Math.max(
+      ...flares.map((flare) => {
+        const strength = FLARE_CLASS_STRENGTH[flare.classType?.charAt(0) ?? ''] ?? 0;
+        return strength * Math.pow(0.5, Math.max(0, hoursSince(flare.time)) / 48);
+      })
+    );
+    const countFactor = Math.min(flares.length / 10, 1.0);
+    const topClass = flares.map((f) => f.classType ?? '?').sort().reverse()[0];
+
+    return {
+      value: Math.min(1, strongest * 0.7 + countFactor * 0.3),
+      detail: `${flares.length} flare${flares.length === 1 ? '' : 's'}, peak ${topClass}`,
+      freshness,
+    };
+  }
+}
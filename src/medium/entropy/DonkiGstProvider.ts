@@ -0,0 +1,52 @@
+/**
+ * Geomagnetic storms (GST) - the original spectral source
+ */
+
+import type { DonkiEvent } from '../../types';
+import type { EntropyProvider, ProviderSample } from './EntropyProvider';
+import { fetchDonkiEvents, hoursSince } from './donki';
+
+export class DonkiGstProvider implements EntropyProvider {
+  id = 'donki_gst';
+  label = 'NASA DONKI geomagnetic storms';
+
+  async sample(): Promise<ProviderSample> {
+    const { events: storms, freshness } = await fetchDonkiEvents('GST');
+
+    console.log(`[Spirit Box] 🌌 NASA DONKI: ${storms.length} geomagnetic storms detected`);
+
+    return {
+      value: this.calculateActivity(storms),
+      detail: `${storms.length} storm${storms.length === 1 ? '' : 's'}`,
+      freshness,
+      metadata: {
+        stormCount: storms.length,
+        recentStorms: storms.slice(0, 3).map((s) => ({
+          id: s.id,
+          time: s.time,
+          kpIndex: s.kpIndex,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Logic:
+   * - More storms = more activity (capped at 5)
+   * - Storms in the last 24 hours count extra
+   * - Higher Kp = stronger geomagnetic disturbance
+   */
+  private calculateActivity(storms: DonkiEvent[]): number {
+    if (storms.length === 0) return 0;
+
+    const stormCountFactor = Math.min(storms.length / 5, 1.0);
+    const recencyFactor = storms.some((storm) => hoursSince(storm.time) < 24) ? 1 : 0;
+
+    const avgKpIndex = storms
+      .filter((s) => s.kpIndex !== undefined)
+      .reduce((sum, s) => sum + (s.kpIndex || 0), 0) / Math.max(storms.length, 1);
+    const kpFactor = Math.min(avgKpIndex / 9, 1.0); // Kp index ranges 0-9
+
+    return stormCountFactor * 0.375 + recencyFactor * 0.25 + kpFactor * 0.375;
+  }
+}
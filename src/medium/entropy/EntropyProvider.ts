@@ -0,0 +1,28 @@
+/**
+ * Entropy Provider Interface
+ *
+ * Each provider turns one source of "spectral activity" - space weather,
+ * the clock, the room itself - into a 0.0 - 1.0 activity level.
+ * SpectralEntropyService samples every registered provider and fuses
+ * their readings by weight.
+ */
+
+import type { DataFreshness, SpectralReading } from '../../types';
+
+export interface ProviderSample {
+  /** Activity level from this source (0.0 - 1.0) */
+  value: number;
+  /** Short human-readable explanation, e.g. "3 storms, Kp 5.3" */
+  detail?: string;
+  /** For network-backed providers: whether the data was live or cached */
+  freshness?: DataFreshness;
+  /** Extra fields merged into the fused reading's metadata */
+  metadata?: SpectralReading['metadata'];
+}
+
+export interface EntropyProvider {
+  id: string;
+  label: string;
+  /** Resolve to null when the source has nothing to say right now */
+  sample(): Promise<ProviderSample | null>;
+}
@@ -0,0 +1,28 @@
+/**
+ * Microphone noise floor - a restless room is a haunted room
+ */
+
+import type { EntropyProvider, ProviderSample } from './EntropyProvider';
+
+/** Noise floor mapped to 0.0 (silent room) ... 1.0 (loud room), in dBFS */
+const QUIET_DB = -80;
+const LOUD_DB = -30;
+
+export class MicNoiseFloorProvider implements EntropyProvider {
+  id = 'mic_noise_floor';
+  label = 'Room noise floor';
+
+  private getNoiseFloorDb: () => number | null;
+
+  constructor(getNoiseFloorDb: () => number | null) {
+    this.getNoiseFloorDb = getNoiseFloorDb;
+  }
+
+  async sample(): Promise<ProviderSample | null> {
+    const floorDb = this.getNoiseFloorDb();
+    if (floorDb === null) return null; // Microphone not open
+
+    const value = Math.max(0, Math.min(1, (floorDb - QUIET_DB) / (LOUD_DB - QUIET_DB)));
+    return { value, detail: `${floorDb.toFixed(0)} dBFS` };
+  }
+}
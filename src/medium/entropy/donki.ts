@@ -0,0 +1,186 @@
+/**
+ * NASA DONKI client shared by the space weather providers
+ *
+ * Requests go through the api/donki route, which holds the NASA key
+ * and normalises every feed to DonkiEvent. Responses are cached in
+ * memory and localStorage (one entry per event type) for a configurable
+ * TTL, so a busy séance doesn't burn through the DEMO_KEY allowance.
+ * When the API reports it is nearly out of requests (or answers 429)
+ * we back off exponentially and serve the last known data instead.
+ */
+
+import { AUDIO_CONFIG } from '../../config/spectral-constants';
+import type { DataFreshness, DonkiEvent, DonkiEventType, DonkiResponse } from '../../types';
+
+export interface DonkiResult {
+  events: DonkiEvent[];
+  freshness: Exclude<DataFreshness, 'fallback'>;
+}
+
+interface CacheEntry {
+  events: DonkiEvent[];
+  fetchedAt: number;
+  /** "startDate:endDate" the events cover - a new day means a new range */
+  range: string;
+}
+
+const DONKI_ROUTE = '/api/donki';
+// v2: entries hold normalised DonkiEvents, not raw DONKI payloads
+const STORAGE_PREFIX = 'spirit-box:donki:v2:';
+const BACKOFF_STORAGE_KEY = `${STORAGE_PREFIX}backoff`;
+
+const memoryCache = new Map<string, CacheEntry>();
+let backoff = loadBackoff();
+
+/**
+ * Fetch DONKI events of one type for the configured lookback window
+ */
+export async function fetchDonkiEvents(eventType: DonkiEventType): Promise<DonkiResult> {
+  const { DONKI_CACHE_TTL_MS } = AUDIO_CONFIG.ENTROPY;
+  const { startDate, endDate } = lookbackWindow();
+  const range = `${startDate}:${endDate}`;
+  // Last known events for this type, even from an older range (served while backing off)
+  const cached = readCache(eventType);
+
+  if (cached && cached.range === range && Date.now() - cached.fetchedAt < DONKI_CACHE_TTL_MS) {
+    return { events: cached.events, freshness: 'cached' };
+  }
+
+  if (Date.now() < backoff.until) {
+    if (cached) {
+      console.log(`[Spirit Box] ⏳ DONKI backing off, serving stale ${eventType} data`);
+      return { events: cached.events, freshness: 'cached' };
+    }
+    throw new Error(`NASA DONKI rate limited, retrying after ${new Date(backoff.until).toLocaleTimeString()}`);
+  }
+
+  const url = `${DONKI_ROUTE}?type=${eventType}&startDate=${startDate}&endDate=${endDate}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      signal: AbortSignal.timeout(5000), // 5s timeout
+    });
+  } catch (error) {
+    if (cached) return { events: cached.events, freshness: 'cached' };
+    throw error;
+  }
+
+  if (response.status === 429) {
+    increaseBackoff();
+    if (cached) return { events: cached.events, freshness: 'cached' };
+    throw new Error('NASA DONKI rate limit exceeded');
+  }
+
+  if (!response.ok) {
+    if (cached) return { events: cached.events, freshness: 'cached' };
+    throw new Error(`NASA DONKI ${eventType} error: ${response.status}`);
+  }
+
+  trackRateLimit(response.headers.get('X-Donki-RateLimit-Remaining'));
+
+  const { events } = (await response.json()) as DonkiResponse;
+  writeCache(eventType, { events, fetchedAt: Date.now(), range });
+
+  return { events, freshness: 'live' };
+}
+
+/**
+ * Hours elapsed since a DONKI timestamp
+ */
+export function hoursSince(time: string): number {
+  return (Date.now() - new Date(time).getTime()) / (1000 * 60 * 60);
+}
+
+function lookbackWindow(): { startDate: string; endDate: string } {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - AUDIO_CONFIG.ENTROPY.LOOKBACK_DAYS);
+
+  return {
+    startDate: startDate.toISOString().split('T')[0],
+    endDate: endDate.toISOString().split('T')[0],
+  };
+}
+
+function readCache(eventType: DonkiEventType): CacheEntry | null {
+  const inMemory = memoryCache.get(eventType);
+  if (inMemory) return inMemory;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + eventType);
+    if (!stored) return null;
+    const entry = JSON.parse(stored) as CacheEntry;
+    memoryCache.set(eventType, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(eventType: DonkiEventType, entry: CacheEntry): void {
+  memoryCache.set(eventType, entry);
+  try {
+    localStorage.setItem(STORAGE_PREFIX + eventType, JSON.stringify(entry));
+    dropDatedEntries(eventType);
+  } catch {
+    // Storage full or disabled - the memory cache still helps
+  }
+}
+
+/**
+ * Remove entries from when the cache was keyed by date range
+ * ("GST:2024-01-01:2024-01-08"), which piled up a new one every day
+ */
+function dropDatedEntries(eventType: DonkiEventType): void {
+  const datedPrefix = `${STORAGE_PREFIX}${eventType}:`;
+  const stale: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(datedPrefix)) stale.push(key);
+  }
+  stale.forEach((key) => localStorage.removeItem(key));
+}
+
+/**
+ * Back off before the key runs dry, not after
+ */
+function trackRateLimit(remainingHeader: string | null): void {
+  // No header (e.g. a cache hit on a cold instance) says nothing about the quota
+  const remaining = remainingHeader === null ? NaN : Number(remainingHeader);
+  if (!Number.isFinite(remaining)) return;
+
+  if (remaining <= AUDIO_CONFIG.ENTROPY.RATE_LIMIT_LOW_WATER) {
+    console.warn(`[Spirit Box] ⚠️ NASA DONKI: only ${remaining} requests left, backing off`);
+    increaseBackoff();
+  } else if (backoff.delayMs > 0) {
+    // Healthy again - forget previous backoff
+    backoff = { until: 0, delayMs: 0 };
+    saveBackoff();
+  }
+}
+
+function increaseBackoff(): void {
+  const { BACKOFF_BASE_MS, BACKOFF_MAX_MS } = AUDIO_CONFIG.ENTROPY;
+  const delayMs = Math.min(BACKOFF_MAX_MS, backoff.delayMs > 0 ? backoff.delayMs * 2 : BACKOFF_BASE_MS);
+  backoff = { until: Date.now() + delayMs, delayMs };
+  saveBackoff();
+}
+
+function loadBackoff(): { until: number; delayMs: number } {
+  try {
+    const stored = localStorage.getItem(BACKOFF_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Fall through to no backoff
+  }
+  return { until: 0, delayMs: 0 };
+}
+
+function saveBackoff(): void {
+  try {
+    localStorage.setItem(BACKOFF_STORAGE_KEY, JSON.stringify(backoff));
+  } catch {
+    // Backoff still applies for this page load
+  }
+}
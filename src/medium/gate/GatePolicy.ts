@@ -0,0 +1,28 @@
+/**
+ * Gate Policy Interface
+ *
+ * A gate policy decides, from the latest spectral reading and what came
+ * before it, whether the spirit may answer - and says why.
+ */
+
+import type { SpectralReading } from '../../types';
+
+export interface GateContext {
+  /** Readings from oldest to newest, ending with the one being judged */
+  history: SpectralReading[];
+  /** When the spirit last manifested (null if not yet this session) */
+  lastManifestationAt: number | null;
+  now: number;
+}
+
+export interface GateDecision {
+  respond: boolean;
+  reasons: string[];
+  probability?: number;
+}
+
+export interface GatePolicy {
+  id: string;
+  label: string;
+  evaluate(reading: SpectralReading, context: GateContext): GateDecision;
+}
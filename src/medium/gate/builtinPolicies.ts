@@ -0,0 +1,135 @@
+/**
+ * Built-in Gate Policies
+ *
+ * - threshold:  a single hard comparison (the original behaviour)
+ * - hysteresis: opens at one level, only closes again below a lower one
+ * - cooldown:   threshold, but the spirit rests after each manifestation
+ * - sigmoid:    the odds of an answer rise smoothly with entropy
+ * - streak:     several high readings in a row are needed
+ */
+
+import { AUDIO_CONFIG } from '../../config/spectral-constants';
+import { seedService } from '../SeedService';
+import type { SpectralReading } from '../../types';
+import type { GateContext, GateDecision, GatePolicy } from './GatePolicy';
+
+const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export class ThresholdPolicy implements GatePolicy {
+  id = 'threshold';
+  label = 'Hard threshold';
+
+  evaluate(reading: SpectralReading): GateDecision {
+    const threshold = AUDIO_CONFIG.ENTROPY.PRESENCE_THRESHOLD;
+    const respond = reading.value >= threshold;
+
+    return {
+      respond,
+      reasons: [`Entropy ${pct(reading.value)} is ${respond ? 'at or above' : 'below'} the ${pct(threshold)} threshold`],
+    };
+  }
+}
+
+export class HysteresisPolicy implements GatePolicy {
+  id = 'hysteresis';
+  label = 'Hysteresis';
+
+  evaluate(_reading: SpectralReading, context: GateContext): GateDecision {
+    const { HYSTERESIS_ENTER, HYSTERESIS_EXIT } = AUDIO_CONFIG.ENTROPY.GATE;
+
+    // Replay the history to find whether the gate is currently open
+    let open = false;
+    for (const { value } of context.history) {
+      if (value >= HYSTERESIS_ENTER) {
+        open = true;
+      } else if (value < HYSTERESIS_EXIT) {
+        open = false;
+      }
+    }
+
+    const latest = context.history[context.history.length - 1]?.value ?? 0;
+    const reasons = open
+      ? latest >= HYSTERESIS_ENTER
+        ? [`Entropy ${pct(latest)} crossed the ${pct(HYSTERESIS_ENTER)} entry level`]
+        : [`Gate still open: entropy ${pct(latest)} has not fallen below ${pct(HYSTERESIS_EXIT)}`]
+      : latest >= HYSTERESIS_EXIT
+        ? [`Gate closed: entropy ${pct(latest)} has not yet reached ${pct(HYSTERESIS_ENTER)}`]
+        : [`Entropy ${pct(latest)} is below the ${pct(HYSTERESIS_EXIT)} exit level`];
+
+    return { respond: open, reasons };
+  }
+}
+
+export class CooldownPolicy implements GatePolicy {
+  id = 'cooldown';
+  label = 'Cooldown after manifestation';
+
+  private threshold = new ThresholdPolicy();
+
+  evaluate(reading: SpectralReading, context: GateContext): GateDecision {
+    const { COOLDOWN_MS } = AUDIO_CONFIG.ENTROPY.GATE;
+    const decision = this.threshold.evaluate(reading);
+
+    if (context.lastManifestationAt !== null) {
+      const remaining = COOLDOWN_MS - (context.now - context.lastManifestationAt);
+      if (remaining > 0) {
+        return {
+          respond: false,
+          reasons: [...decision.reasons, `The spirit is resting for another ${Math.ceil(remaining / 1000)}s`],
+        };
+      }
+    }
+
+    return decision;
+  }
+}
+
+export class SigmoidPolicy implements GatePolicy {
+  id = 'sigmoid';
+  label = 'Probability curve';
+
+  evaluate(reading: SpectralReading): GateDecision {
+    const { SIGMOID_MIDPOINT, SIGMOID_STEEPNESS } = AUDIO_CONFIG.ENTROPY.GATE;
+    const probability = 1 / (1 + Math.exp(-SIGMOID_STEEPNESS * (reading.value - SIGMOID_MIDPOINT)));
+    const roll = seedService.random('gate');
+    const respond = roll < probability;
+
+    return {
+      respond,
+      probability,
+      reasons: [
+        `Entropy ${pct(reading.value)} gave the spirit a ${pct(probability)} chance`,
+        respond ? 'The veil parted' : 'The veil held',
+      ],
+    };
+  }
+}
+
+export class StreakPolicy implements GatePolicy {
+  id = 'streak';
+  label = 'Streak of high readings';
+
+  evaluate(_reading: SpectralReading, context: GateContext): GateDecision {
+    const { STREAK_LENGTH } = AUDIO_CONFIG.ENTROPY.GATE;
+    const threshold = AUDIO_CONFIG.ENTROPY.PRESENCE_THRESHOLD;
+
+    let streak = 0;
+    for (let i = context.history.length - 1; i >= 0 && context.history[i].value >= threshold; i--) {
+      streak++;
+    }
+
+    const respond = streak >= STREAK_LENGTH;
+    return {
+      respond,
+      reasons: [`${streak} of ${STREAK_LENGTH} consecutive readings at or above ${pct(threshold)}`],
+    };
+  }
+}
+
+export const BUILTIN_GATE_POLICIES: GatePolicy[] = [
+  new ThresholdPolicy(),
+  new HysteresisPolicy(),
+  new CooldownPolicy(),
+  new SigmoidPolicy(),
+  new StreakPolicy(),
+];
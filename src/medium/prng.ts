@@ -0,0 +1,33 @@
+/**
+ * Seedable PRNG primitives
+ *
+ * Pure functions with no browser dependencies, so they can run both on
+ * the main thread (SeedService) and inside AudioWorklets.
+ */
+
+/**
+ * Hash any string into a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32: tiny, fast, good enough for static and séance dice
+ * Returns a function yielding floats in [0, 1), like Math.random()
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,3 +1,32 @@
+/** Colour of the synthesized static */
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+/** How the static is tuned: smooth LFO filter sweep or stepped radio scan */
+export type SweepMode = 'lfo' | 'channel';
+
+/** Order in which the channel sweep hops through its channels */
+export type SweepDirection = 'forward' | 'reverse' | 'random';
+
+/** How ghost speech is cut up: at word gaps, or into fixed-size grains */
+export type FragmentationMode = 'word' | 'grain';
+
+/** One effect in a ghost-voice chain, declared as data */
+export interface GhostEffectConfig {
+  /** Registered effect type, e.g. 'lowpass', 'reverb', 'ringmod' */
+  type: string;
+  /** Overrides for the effect's default parameters */
+  params?: Record<string, number>;
+  /** Set false to keep the entry in a preset but skip it */
+  enabled?: boolean;
+}
+
+/** A full ghost-voice effect chain, applied in order */
+export interface GhostEffectChain {
+  /** Playback rate of the voice (below 1 = deeper and slower) */
+  playbackRate: number;
+  effects: GhostEffectConfig[];
+}
+
 /** EVP Session status */
 export type SessionStatus = 'inactive' | 'active' | 'processing' | 'responding';
 
@@ -5,9 +34,17 @@ export type SessionStatus = 'inactive' | 'active' | 'processing' | 'responding';
 export interface TranscriptEntry {
   id: string;
   timestamp: number;
-  speaker: 'user' | 'spirit';
+  speaker: 'user' | 'spirit' | 'anomaly';
   text: string;
   entropyReading?: number;
+  /** Spirit entries only: true if the ghost actually manifested */
+  presence?: boolean;
+  /** Spirit entries only: why the entropy gate opened or stayed shut */
+  gateReasons?: string[];
+  /** Spirit entries only: which persona was listening */
+  personaId?: string;
+  /** Spirit entries only: api/chat refused the exchange and the spirit answered with a refusal */
+  moderated?: boolean;
 }
 
 /** Main EVP session state */
@@ -15,20 +52,300 @@ export interface EVPSession {
   status: SessionStatus;
   transcript: TranscriptEntry[];
   currentEntropy: number | null;
+  entropyFreshness: DataFreshness | null;
   debugMode: boolean;
 }
 
+/** Kind of ambient disturbance picked up by the microphone */
+export type AnomalyKind = 'spike' | 'voice';
+
+/** An ambient EVP anomaly detected on the microphone */
+export interface EVPAnomaly {
+  timestamp: number;
+  kind: AnomalyKind;
+  levelDb: number;
+  noiseFloorDb: number;
+}
+
+/** NASA DONKI event feeds used as entropy sources */
+export type DonkiEventType = 'GST' | 'FLR' | 'CME';
+
+/** A DONKI event normalised by the api/donki route */
+export interface DonkiEvent {
+  id: string;
+  type: DonkiEventType;
+  /** ISO time: storm start, flare peak or CME start */
+  time: string;
+  /** GST only: peak Kp index */
+  kpIndex?: number;
+  /** FLR only: GOES class, e.g. "M2.3" */
+  classType?: string;
+  /** CME only: fastest analysed speed (km/s) */
+  speed?: number;
+}
+
+/** Response body of the api/donki route */
+export interface DonkiResponse {
+  type: DonkiEventType;
+  startDate: string;
+  endDate: string;
+  events: DonkiEvent[];
+}
+
+/** Verdict of the entropy gate, with the policy that made it */
+export interface EntropyGateResult {
+  respond: boolean;
+  reading: SpectralReading;
+  /** ID of the gate policy that decided */
+  policy: string;
+  /** Human-readable explanation of the decision */
+  reasons: string[];
+  /** For probabilistic policies: the chance the spirit had to respond */
+  probability?: number;
+}
+
+/** Failure categories reported by api/chat, whichever provider is behind it */
+export type ChatErrorCode =
+  | 'config_error'
+  | 'bad_request'
+  | 'auth_error'
+  | 'rate_limited'
+  | 'timeout'
+  | 'upstream_error';
+
+/** A function the model may call, described with JSON Schema parameters */
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** A function call made by the model */
+export interface ChatToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/** Device effects the spirit can trigger */
+export type SpiritToolName =
+  | 'knock'
+  | 'static_burst'
+  | 'radar_flare'
+  | 'screen_flicker'
+  | 'whisper_name'
+  | 'go_silent';
+
+/** A tool call the client knows how to carry out */
+export interface SpiritToolCall extends ChatToolCall {
+  name: SpiritToolName;
+}
+
+/** One step of a streamed reply: a phrase to speak or an effect to trigger */
+export type SpiritUtterance =
+  | {
+      kind: 'phrase';
+      text: string;
+      /** Set when the phrase is an in-character refusal from api/chat */
+      moderated?: ModerationCategory;
+      /** Set on the last phrase when max_tokens cut the reply off */
+      truncated?: boolean;
+    }
+  | { kind: 'tool'; call: SpiritToolCall };
+
+/** What the spirit recalls from earlier séances, as sent to api/chat */
+export type RecalledMemory = Pick<GhostMemory, 'investigatorNames' | 'pastQuestions' | 'claimedFacts' | 'sessionCount'>;
+
+/**
+ * Request body of api/chat
+ *
+ * The server builds the prompt itself from these; clients can't supply
+ * messages or system instructions.
+ */
+export interface ChatRequestBody {
+  personaId: string;
+  question: string;
+  /** Spectral energy of the reading that let the spirit through */
+  entropy: number;
+  /** The séance so far, excluding this question */
+  history?: Pick<TranscriptEntry, 'speaker' | 'text' | 'presence'>[];
+  memory?: RecalledMemory;
+  max_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+  /** Offer the spirit its device effects (api/chat supplies the definitions) */
+  tools?: boolean;
+}
+
+/** Why api/chat refused to pass something to (or from) the model */
+export type ModerationCategory = 'prompt_injection' | 'misuse' | 'harmful';
+
+/** Response body of api/chat (non-streaming) */
+export interface ChatCompletion {
+  content: string;
+  /** Provider that answered, e.g. "openai", "anthropic", "local", "mock" */
+  provider: string;
+  model: string;
+  toolCalls?: ChatToolCall[];
+  /** Set when the reply is an in-character refusal instead of the model's answer */
+  moderated?: ModerationCategory;
+  /** The model hit max_tokens, so the last word may be cut in half */
+  truncated?: boolean;
+}
+
+/** One streamed api/chat event: a text delta or a completed tool call */
+export interface ChatStreamEvent {
+  content?: string;
+  toolCall?: ChatToolCall;
+  /** Sent with a refusal that replaces the model's answer */
+  moderated?: ModerationCategory;
+  /** Sent last when the model hit max_tokens */
+  truncated?: boolean;
+}
+
+/** Error body of api/chat; also sent in-band as an SSE event when streaming */
+export interface ChatError {
+  error: {
+    code: ChatErrorCode;
+    message: string;
+  };
+}
+
+/** Generation and playback parameters for one entropy reading */
+export interface SignalClarity {
+  /** 0.0 = barely over the threshold, 1.0 = maximum entropy */
+  level: number;
+  temperature: number;
+  maxTokens: number;
+  /** Chance each word of the reply is dropped */
+  wordDropout: number;
+  /** Chance each kept word is cut off mid-syllable */
+  garble: number;
+  /** Multiplier on the effect chain's distortion amount */
+  distortionScale: number;
+  /** Multiplier on the effect chain's lowpass cutoff */
+  lowpassScale: number;
+  /** Static level while the spirit speaks */
+  noiseGain: number;
+  /** Voice bus level */
+  voiceGain: number;
+  /** Speech fragmentation intensity (0.0 - 1.0) */
+  fragmentIntensity: number;
+}
+
+/** What one spirit remembers across séances (stored in IndexedDB) */
+export interface GhostMemory {
+  personaId: string;
+  /** Names investigators have given */
+  investigatorNames: string[];
+  /** Questions asked in earlier séances, oldest first */
+  pastQuestions: string[];
+  /** Things the spirit has claimed about its own death */
+  claimedFacts: string[];
+  /** Séances this spirit has been called to */
+  sessionCount: number;
+  updatedAt: number;
+}
+
+/**
+ * Word-level Markov chain trained at build time on a persona's example
+ * lines and lore (served by the `virtual:markov-models` module)
+ */
+export interface MarkovModel {
+  /** Words of context in each state */
+  order: number;
+  /** Opening states, one per training line */
+  starts: string[][];
+  /** State (its words joined by spaces) → words seen after it; '' ends a line */
+  transitions: Record<string, string[]>;
+}
+
+/** Hard limits on a persona's replies */
+export interface PersonaRules {
+  /** Longest reply, in words */
+  maxWords: number;
+  /** Replies must be written in capitals */
+  allCaps: boolean;
+  /** Replies should trail off with "..." */
+  useEllipses: boolean;
+  /** Free-form style guidance for the system prompt */
+  style: string[];
+}
+
+/** A spirit that can answer through the box (loaded from src/config/personas) */
+export interface GhostPersona {
+  id: string;
+  /** Full name, e.g. "Cornelius Blackwood" */
+  name: string;
+  /** Short transcript label, e.g. "CORNELIUS" */
+  label: string;
+  /** One-line biography shown in the picker */
+  description: string;
+  /** Who the spirit is; rules and examples are appended to this */
+  prompt: string;
+  rules: PersonaRules;
+  exampleLines: string[];
+  voice: {
+    /** OpenAI TTS voice */
+    voice: string;
+    speed: number;
+  };
+  /** Key into EFFECT_PRESETS */
+  effectPreset: string;
+  /** Replies used when the LLM is unreachable */
+  fallbackLines: string[];
+  /** In-character refusals for questions (or replies) that api/chat blocks */
+  refusalLines: string[];
+}
+
+/** A labelled point in time to mark in a session recording */
+export interface WavCueMarker {
+  timestamp: number;
+  label: string;
+}
+
+/** Finished EVP session recording */
+export interface SessionRecording {
+  blob: Blob;
+  duration: number; // seconds
+  markerCount: number;
+}
+
+/** Where a reading's data came from: a fresh request, a cache, or neither */
+export type DataFreshness = 'live' | 'cached' | 'fallback';
+
+/** How much one entropy provider added to a fused reading */
+export interface EntropyContribution {
+  providerId: string;
+  label: string;
+  value: number; // 0.0 - 1.0
+  weight: number; // normalised share of the fused value (0.0 - 1.0)
+  detail?: string;
+  freshness?: DataFreshness;
+}
+
 /** Spectral reading from cosmic sources */
 export interface SpectralReading {
   value: number; // 0.0 - 1.0
   timestamp: number;
-  source: 'nasa_donki' | 'random_fallback' | 'debug_override';
+  source: 'spectral_fusion' | 'nasa_donki' | 'random_fallback' | 'debug_override';
+  /** Whether the network-backed data behind this reading was live, cached or absent */
+  freshness?: DataFreshness;
   metadata?: {
+    providers?: EntropyContribution[];
     stormCount?: number;
     recentStorms?: Array<{
       id: string;
       time: string;
       kpIndex?: number;
     }>;
+    astronomy?: {
+      /** 0 = new moon, 0.5 = full */
+      moonPhase: number;
+      moonIllumination: number;
+      hoursToMidnight: number;
+      hoursTo3am: number;
+      nearestDate: string;
+      daysToNearestDate: number;
+    };
   };
 }
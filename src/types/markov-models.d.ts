@@ -0,0 +1,5 @@
+declare module 'virtual:markov-models' {
+  /** Trained chains, keyed by persona id */
+  const models: Record<string, import('./index').MarkovModel>;
+  export default models;
+}
@@ -0,0 +1,111 @@
+/**
+ * Entropy History Chart
+ *
+ * Plots spectral entropy over the session, with the presence threshold
+ * and a marker wherever the spirit came through - so investigators can
+ * see whether activity was rising or falling before a contact.
+ */
+
+import { useEffect, useRef } from 'react';
+import { AUDIO_CONFIG } from '../../config/spectral-constants';
+import type { SpectralReading, TranscriptEntry } from '../../types';
+
+interface EntropyHistoryChartProps {
+  history: SpectralReading[];
+  entries: TranscriptEntry[];
+  width?: number;
+  height?: number;
+}
+
+export function EntropyHistoryChart({
+  history,
+  entries,
+  width = 480,
+  height = 120,
+}: EntropyHistoryChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const padding = 6;
+    const plotWidth = width - padding * 2;
+    const plotHeight = height - padding * 2;
+
+    ctx.clearRect(0, 0, width, height);
+
+    if (history.length === 0) return;
+
+    const startTime = history[0].timestamp;
+    const endTime = Math.max(history[history.length - 1].timestamp, startTime + 1);
+    const toX = (time: number) => padding + ((time - startTime) / (endTime - startTime)) * plotWidth;
+    const toY = (value: number) => padding + (1 - value) * plotHeight;
+
+    // Presence threshold
+    const thresholdY = toY(AUDIO_CONFIG.ENTROPY.PRESENCE_THRESHOLD);
+    ctx.save();
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.6)';
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(padding, thresholdY);
+    ctx.lineTo(width - padding, thresholdY);
+    ctx.stroke();
+    ctx.restore();
+
+    // Spirit replies
+    ctx.save();
+    ctx.strokeStyle = 'rgba(168, 85, 247, 0.8)';
+    ctx.fillStyle = 'rgba(168, 85, 247, 0.9)';
+    entries
+      .filter((entry) => entry.speaker === 'spirit' && entry.presence)
+      .filter((entry) => entry.timestamp >= startTime && entry.timestamp <= endTime)
+      .forEach((entry) => {
+        const x = toX(entry.timestamp);
+        ctx.beginPath();
+        ctx.moveTo(x, padding);
+        ctx.lineTo(x, height - padding);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(x, toY(entry.entropyReading ?? 1), 3, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    ctx.restore();
+
+    // Entropy line
+    ctx.save();
+    ctx.shadowColor = 'rgba(34, 197, 94, 0.8)';
+    ctx.shadowBlur = 6;
+    ctx.strokeStyle = 'rgba(34, 197, 94, 0.9)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    history.forEach((reading, i) => {
+      const x = history.length === 1 ? width / 2 : toX(reading.timestamp);
+      const y = toY(reading.value);
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+    ctx.restore();
+  }, [history, entries, width, height]);
+
+  const latest = history[history.length - 1];
+  const previous = history[history.length - 2];
+  const trend = latest && previous
+    ? latest.value > previous.value ? '▲ RISING' : latest.value < previous.value ? '▼ FALLING' : '■ STEADY'
+    : '';
+
+  return (
+    <div className="p-2 bg-black/50 rounded border border-green-900">
+      <div className="flex justify-between text-xs font-mono mb-1">
+        <span className="text-green-500">ENTROPY HISTORY</span>
+        <span className="text-gray-400">{trend}</span>
+      </div>
+      <canvas ref={canvasRef} width={width} height={height} className="w-full bg-black/80 rounded" />
+    </div>
+  );
+}
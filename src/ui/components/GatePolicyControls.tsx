@@ -0,0 +1,32 @@
+/**
+ * Gate Policy Controls
+ *
+ * Chooses how the entropy gate decides when the spirit may speak
+ */
+
+import type { GatePolicy } from '../../medium/gate/GatePolicy';
+
+interface GatePolicyControlsProps {
+  policies: GatePolicy[];
+  selected: string;
+  onChange: (id: string) => void;
+}
+
+export function GatePolicyControls({ policies, selected, onChange }: GatePolicyControlsProps) {
+  return (
+    <div className="flex items-center gap-2 text-xs font-mono">
+      <span className="text-gray-500">GATE:</span>
+      <select
+        value={selected}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-black border border-gray-700 text-green-400 rounded px-2 py-1 hover:border-green-800"
+      >
+        {policies.map((policy) => (
+          <option key={policy.id} value={policy.id}>
+            {policy.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * Ghost Memory Panel
+ *
+ * View, correct or wipe what a spirit remembers between séances
+ */
+
+import { useState } from 'react';
+import { AUDIO_CONFIG } from '../../config/spectral-constants';
+import { clipForChat } from '../../medium/ConversationMemory';
+import type { GhostMemory } from '../../types';
+
+interface GhostMemoryPanelProps {
+  memory: GhostMemory;
+  spiritLabel: string;
+  onSave: (memory: GhostMemory) => void;
+  onWipe: () => void;
+}
+
+type ListField = 'investigatorNames' | 'pastQuestions' | 'claimedFacts';
+
+const { MEMORY_MAX_NAMES, MEMORY_MAX_QUESTIONS, MEMORY_MAX_FACTS, MAX_TEXT_CHARS } = AUDIO_CONFIG.CONVERSATION;
+
+// The same limits the store and api/chat keep to
+const FIELDS: Array<{ key: ListField; label: string; max: number }> = [
+  { key: 'investigatorNames', label: 'NAMES', max: MEMORY_MAX_NAMES },
+  { key: 'pastQuestions', label: 'QUESTIONS', max: MEMORY_MAX_QUESTIONS },
+  { key: 'claimedFacts', label: 'CLAIMS ABOUT ITS DEATH', max: MEMORY_MAX_FACTS },
+];
+
+export function GhostMemoryPanel({ memory, spiritLabel, onSave, onWipe }: GhostMemoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<Record<ListField, string> | null>(null);
+
+  const startEditing = () => {
+    setDraft({
+      investigatorNames: memory.investigatorNames.join('\n'),
+      pastQuestions: memory.pastQuestions.join('\n'),
+      claimedFacts: memory.claimedFacts.join('\n'),
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    // Newest lines win, as in the store; long lines are clipped
+    const lines = (key: ListField, max: number) =>
+      draft[key].split('\n').map(clipForChat).filter(Boolean).slice(-max);
+    onSave({
+      ...memory,
+      investigatorNames: lines('investigatorNames', MEMORY_MAX_NAMES),
+      pastQuestions: lines('pastQuestions', MEMORY_MAX_QUESTIONS),
+      claimedFacts: lines('claimedFacts', MEMORY_MAX_FACTS),
+    });
+    setDraft(null);
+  };
+
+  const wipe = () => {
+    if (window.confirm(`Make ${spiritLabel} forget everything?`)) {
+      onWipe();
+      setDraft(null);
+    }
+  };
+
+  const buttonClass = 'px-2 py-1 rounded border border-gray-700 text-gray-400 hover:border-green-800';
+
+  return (
+    <div className="w-full text-xs font-mono">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-green-400">
+        🧠 WHAT {spiritLabel} REMEMBERS {isOpen ? '▾' : '▸'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-2 bg-black/50 border border-gray-800 rounded flex flex-col gap-2">
+          <div className="text-gray-500">Séances: {memory.sessionCount}</div>
+
+          {FIELDS.map(({ key, label, max }) => (
+            <div key={key}>
+              <div className="text-gray-500">
+                {label}
+                {draft && <span className="text-gray-600"> (newest {max} lines, {MAX_TEXT_CHARS} characters each)</span>}
+              </div>
+              {draft ? (
+                <textarea
+                  value={draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                  rows={3}
+                  className="w-full bg-black border border-gray-700 text-green-300 rounded p-1"
+                />
+              ) : memory[key].length > 0 ? (
+                <ul className="text-green-300">
+                  {memory[key].map((item) => (
+                    <li key={item}>· {item}</li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-gray-600 italic">nothing yet</div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            {draft ? (
+              <>
+                <button onClick={saveDraft} className={buttonClass}>SAVE</button>
+                <button onClick={() => setDraft(null)} className={buttonClass}>CANCEL</button>
+              </>
+            ) : (
+              <button onClick={startEditing} className={buttonClass}>EDIT</button>
+            )}
+            <button onClick={wipe} className={`${buttonClass} hover:border-red-800 hover:text-red-400`}>
+              WIPE
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Persona Picker
+ *
+ * Choose which spirit to call before the séance begins
+ */
+
+import type { GhostPersona } from '../../types';
+
+interface PersonaPickerProps {
+  personas: GhostPersona[];
+  selected: string;
+  disabled: boolean;
+  onChange: (id: string) => void;
+}
+
+export function PersonaPicker({ personas, selected, disabled, onChange }: PersonaPickerProps) {
+  return (
+    <div className="flex flex-col items-center gap-2 text-xs font-mono">
+      <span className="text-gray-500">CALL UPON:</span>
+      <div className="flex flex-wrap justify-center gap-2">
+        {personas.map((persona) => (
+          <button
+            key={persona.id}
+            onClick={() => onChange(persona.id)}
+            disabled={disabled}
+            title={persona.description}
+            className={`px-2 py-1 rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              selected === persona.id
+                ? 'border-green-500 text-green-400 bg-green-900/30'
+                : 'border-gray-700 text-gray-500 hover:border-green-800'
+            }`}
+          >
+            {persona.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -8,12 +8,21 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { AUDIO_CONFIG } from '../../config/spectral-constants';
 
+/** A burst of activity set off by the spirit itself */
+export interface RadarFlare {
+  /** When it was triggered (a new value fires a new flare) */
+  at: number;
+  /** 0.0 - 1.0 */
+  intensity: number;
+}
+
 interface SpectralRadarProps {
   analyserNode: AnalyserNode | null;
   isActive: boolean;
+  flare?: RadarFlare | null;
 }
 
-export function SpectralRadar({ analyserNode, isActive }: SpectralRadarProps) {
+export function SpectralRadar({ analyserNode, isActive, flare = null }: SpectralRadarProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>(0);
   const sweepAngleRef = useRef(0);
@@ -125,6 +134,21 @@ export function SpectralRadar({ analyserNode, isActive }: SpectralRadarProps) {
     animationRef.current = requestAnimationFrame(draw);
   }, [analyserNode, isActive]);
 
+  // Flare: a fan of spikes wherever the sweep is pointing right now
+  useEffect(() => {
+    if (!flare) return;
+
+    const { FLARE_SPIKES, FLARE_SPREAD } = AUDIO_CONFIG.RADAR;
+    for (let i = 0; i < FLARE_SPIKES; i++) {
+      const offset = (i / (FLARE_SPIKES - 1) - 0.5) * FLARE_SPREAD;
+      spikesRef.current.push({
+        angle: sweepAngleRef.current + offset,
+        intensity: flare.intensity * (1 - Math.abs(offset) / FLARE_SPREAD),
+        decay: 1,
+      });
+    }
+  }, [flare]);
+
   useEffect(() => {
     if (isActive) {
       animationRef.current = requestAnimationFrame(draw);
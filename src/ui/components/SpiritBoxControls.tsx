@@ -4,18 +4,24 @@
  * Start/Stop session buttons and status display
  */
 
-import type { SessionStatus } from '../../types';
+import type { NoiseColor, SessionStatus } from '../../types';
 
 interface SpiritBoxControlsProps {
   status: SessionStatus;
+  noiseColor: NoiseColor;
   onStart: () => void;
   onStop: () => void;
+  onNoiseColorChange: (color: NoiseColor) => void;
 }
 
+const NOISE_COLORS: NoiseColor[] = ['white', 'pink', 'brown'];
+
 export function SpiritBoxControls({
   status,
+  noiseColor,
   onStart,
   onStop,
+  onNoiseColorChange,
 }: SpiritBoxControlsProps) {
   const isActive = status !== 'inactive';
 
@@ -79,6 +85,24 @@ export function SpiritBoxControls({
           </button>
         )}
       </div>
+
+      {/* Static colour selector */}
+      <div className="flex items-center gap-2 text-xs font-mono">
+        <span className="text-gray-500">STATIC:</span>
+        {NOISE_COLORS.map((color) => (
+          <button
+            key={color}
+            onClick={() => onNoiseColorChange(color)}
+            className={`px-2 py-1 rounded border transition-colors ${
+              noiseColor === color
+                ? 'border-green-500 text-green-400 bg-green-900/30'
+                : 'border-gray-700 text-gray-500 hover:border-green-800'
+            }`}
+          >
+            {color.toUpperCase()}
+          </button>
+        ))}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,86 @@
+/**
+ * Sweep Controls
+ *
+ * Tuning mode, scan direction and hop rate for the static
+ */
+
+import { AUDIO_CONFIG } from '../../config/spectral-constants';
+import type { SweepDirection, SweepMode } from '../../types';
+
+interface SweepControlsProps {
+  mode: SweepMode;
+  direction: SweepDirection;
+  stepMs: number;
+  onModeChange: (mode: SweepMode) => void;
+  onDirectionChange: (direction: SweepDirection) => void;
+  onStepMsChange: (ms: number) => void;
+}
+
+const MODES: Array<{ value: SweepMode; label: string }> = [
+  { value: 'lfo', label: 'DRIFT' },
+  { value: 'channel', label: 'SCAN' },
+];
+
+const DIRECTIONS: Array<{ value: SweepDirection; label: string }> = [
+  { value: 'forward', label: '▶' },
+  { value: 'reverse', label: '◀' },
+  { value: 'random', label: '⁇' },
+];
+
+export function SweepControls({
+  mode,
+  direction,
+  stepMs,
+  onModeChange,
+  onDirectionChange,
+  onStepMsChange,
+}: SweepControlsProps) {
+  const { STEP_MS_MIN, STEP_MS_MAX } = AUDIO_CONFIG.SWEEP;
+
+  const buttonClass = (selected: boolean) =>
+    `px-2 py-1 rounded border transition-colors ${
+      selected
+        ? 'border-green-500 text-green-400 bg-green-900/30'
+        : 'border-gray-700 text-gray-500 hover:border-green-800'
+    }`;
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-xs font-mono">
+      {/* Tuning mode */}
+      <div className="flex items-center gap-2">
+        <span className="text-gray-500">TUNING:</span>
+        {MODES.map(({ value, label }) => (
+          <button key={value} onClick={() => onModeChange(value)} className={buttonClass(mode === value)}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Scan direction and hop rate (channel sweep only) */}
+      {mode === 'channel' && (
+        <div className="flex items-center gap-2">
+          {DIRECTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onDirectionChange(value)}
+              className={buttonClass(direction === value)}
+              title={value}
+            >
+              {label}
+            </button>
+          ))}
+          <input
+            type="range"
+            min={STEP_MS_MIN}
+            max={STEP_MS_MAX}
+            step={10}
+            value={stepMs}
+            onChange={(e) => onStepMsChange(Number(e.target.value))}
+            className="w-24 accent-green-500"
+          />
+          <span className="text-green-500 w-14 text-right">{stepMs}ms</span>
+        </div>
+      )}
+    </div>
+  );
+}
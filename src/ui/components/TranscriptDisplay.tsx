@@ -5,16 +5,56 @@
  */
 
 import { useEffect, useRef } from 'react';
-import type { TranscriptEntry } from '../../types';
+import type { DataFreshness, GhostPersona, TranscriptEntry } from '../../types';
 
 interface TranscriptDisplayProps {
   entries: TranscriptEntry[];
   currentEntropy: number | null;
+  entropyFreshness: DataFreshness | null;
+  personas: GhostPersona[];
 }
 
-export function TranscriptDisplay({ entries, currentEntropy }: TranscriptDisplayProps) {
+const FRESHNESS_BADGES: Record<DataFreshness, { label: string; className: string }> = {
+  live: { label: '● LIVE', className: 'text-green-400 border-green-700' },
+  cached: { label: '◐ CACHED', className: 'text-yellow-400 border-yellow-700' },
+  fallback: { label: '○ FALLBACK', className: 'text-gray-400 border-gray-700' },
+};
+
+const SPEAKER_STYLES: Record<TranscriptEntry['speaker'], {
+  label: string;
+  container: string;
+  labelColor: string;
+  text: string;
+}> = {
+  user: {
+    label: '🎤 YOU',
+    container: 'bg-blue-900/30 border border-blue-800 ml-8',
+    labelColor: 'text-blue-400',
+    text: 'text-blue-100',
+  },
+  spirit: {
+    label: '👻 SPIRIT',
+    container: 'bg-green-900/30 border border-green-800 mr-8',
+    labelColor: 'text-green-400',
+    text: 'text-green-100 font-creepster text-lg',
+  },
+  anomaly: {
+    label: '👁️ ANOMALY',
+    container: 'bg-purple-900/20 border border-dashed border-purple-800 mx-4',
+    labelColor: 'text-purple-400',
+    text: 'text-purple-200 italic',
+  },
+};
+
+export function TranscriptDisplay({ entries, currentEntropy, entropyFreshness, personas }: TranscriptDisplayProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  // Spirit entries are labelled with whoever was called upon
+  const speakerLabel = (entry: TranscriptEntry) => {
+    const persona = entry.personaId ? personas.find((p) => p.id === entry.personaId) : undefined;
+    return persona ? `👻 ${persona.label}` : SPEAKER_STYLES[entry.speaker].label;
+  };
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (scrollRef.current) {
@@ -27,8 +67,13 @@ export function TranscriptDisplay({ entries, currentEntropy }: TranscriptDisplay
       {/* Current entropy reading */}
       {currentEntropy !== null && (
         <div className="mb-4 p-2 bg-black/50 rounded border border-green-900 flex-shrink-0">
-          <div className="text-xs text-green-500 font-mono">
-            SPECTRAL ENERGY: {(currentEntropy * 100).toFixed(0)}%
+          <div className="flex justify-between items-center text-xs text-green-500 font-mono">
+            <span>SPECTRAL ENERGY: {(currentEntropy * 100).toFixed(0)}%</span>
+            {entropyFreshness && (
+              <span className={`px-1 border rounded ${FRESHNESS_BADGES[entropyFreshness].className}`}>
+                {FRESHNESS_BADGES[entropyFreshness].label}
+              </span>
+            )}
           </div>
           <div className="w-full h-2 bg-gray-800 rounded mt-1">
             <div
@@ -53,19 +98,11 @@ export function TranscriptDisplay({ entries, currentEntropy }: TranscriptDisplay
           entries.map((entry) => (
             <div
               key={entry.id}
-              className={`p-3 rounded-lg ${
-                entry.speaker === 'user'
-                  ? 'bg-blue-900/30 border border-blue-800 ml-8'
-                  : 'bg-green-900/30 border border-green-800 mr-8'
-              }`}
+              className={`p-3 rounded-lg ${SPEAKER_STYLES[entry.speaker].container}`}
             >
               <div className="flex justify-between items-start mb-1">
-                <span
-                  className={`text-xs font-bold ${
-                    entry.speaker === 'user' ? 'text-blue-400' : 'text-green-400'
-                  }`}
-                >
-                  {entry.speaker === 'user' ? '🎤 YOU' : '👻 CORNELIUS'}
+                <span className={`text-xs font-bold ${SPEAKER_STYLES[entry.speaker].labelColor}`}>
+                  {speakerLabel(entry)}
                 </span>
                 {entry.entropyReading !== undefined && (
                   <span className="text-xs text-gray-500">
@@ -73,13 +110,16 @@ export function TranscriptDisplay({ entries, currentEntropy }: TranscriptDisplay
                   </span>
                 )}
               </div>
-              <p
-                className={`text-sm ${
-                  entry.speaker === 'user' ? 'text-blue-100' : 'text-green-100 font-creepster text-lg'
-                }`}
-              >
+              <p className={`text-sm ${SPEAKER_STYLES[entry.speaker].text}`}>
                 {entry.text}
               </p>
+              {entry.presence === false && entry.gateReasons && (
+                <ul className="mt-1 text-xs font-mono text-gray-500">
+                  {entry.gateReasons.map((reason) => (
+                    <li key={reason}>· {reason}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           ))
         )}
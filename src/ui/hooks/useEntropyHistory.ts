@@ -0,0 +1,27 @@
+/**
+ * Entropy History Hook
+ *
+ * Follows the spectral entropy ring buffer while a session is active
+ */
+
+import { useEffect, useState } from 'react';
+import { spectralEntropyService } from '../../medium/SpectralEntropyService';
+import type { SpectralReading } from '../../types';
+
+export function useEntropyHistory(isActive: boolean): SpectralReading[] {
+  const [history, setHistory] = useState<SpectralReading[]>(() => spectralEntropyService.getHistory());
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const unsubscribe = spectralEntropyService.subscribeToHistory(setHistory);
+    spectralEntropyService.startMonitoring();
+
+    return () => {
+      spectralEntropyService.stopMonitoring();
+      unsubscribe();
+    };
+  }, [isActive]);
+
+  return history;
+}
@@ -0,0 +1,31 @@
+/**
+ * Ghost Memory Hook
+ *
+ * Follows what a spirit remembers across séances
+ */
+
+import { useEffect, useState } from 'react';
+import { emptyMemory, ghostMemoryStore } from '../../medium/GhostMemoryStore';
+import type { GhostMemory } from '../../types';
+
+export function useGhostMemory(personaId: string): GhostMemory {
+  const [memory, setMemory] = useState<GhostMemory>(() => emptyMemory(personaId));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    ghostMemoryStore.load(personaId).then((loaded) => {
+      if (!cancelled) setMemory(loaded);
+    });
+    const unsubscribe = ghostMemoryStore.subscribe((updated) => {
+      if (updated.personaId === personaId) setMemory(updated);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [personaId]);
+
+  return memory;
+}
@@ -8,6 +8,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 
 interface UseSpeechRecognitionReturn {
   isListening: boolean;
+  isHearingSpeech: boolean;
   transcript: string;
   error: string | null;
   isSupported: boolean;
@@ -30,6 +31,8 @@ interface SpeechRecognitionInstance extends EventTarget {
   interimResults: boolean;
   lang: string;
   onstart: (() => void) | null;
+  onspeechstart: (() => void) | null;
+  onspeechend: (() => void) | null;
   onresult: ((event: SpeechRecognitionEvent) => void) | null;
   onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
   onend: (() => void) | null;
@@ -47,6 +50,7 @@ declare global {
 
 export function useSpeechRecognition(): UseSpeechRecognitionReturn {
   const [isListening, setIsListening] = useState(false);
+  const [isHearingSpeech, setIsHearingSpeech] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [error, setError] = useState<string | null>(null);
   const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
@@ -75,6 +79,14 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
       console.log('[Spirit Box] Listening for your voice...');
     };
 
+    recognition.onspeechstart = () => {
+      setIsHearingSpeech(true);
+    };
+
+    recognition.onspeechend = () => {
+      setIsHearingSpeech(false);
+    };
+
     recognition.onresult = (event: SpeechRecognitionEvent) => {
       const result = event.results[event.results.length - 1];
       if (result.isFinal) {
@@ -95,6 +107,7 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
 
     recognition.onend = () => {
       setIsListening(false);
+      setIsHearingSpeech(false);
     };
 
     recognitionRef.current = recognition;
@@ -123,6 +136,7 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
 
   return {
     isListening,
+    isHearingSpeech,
     transcript,
     error,
     isSupported,